@@ -0,0 +1,50 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import type { Plugin } from "vite";
+
+// Never precached: the worker itself, source maps and crawler hints
+const EXCLUDED = [/^sw\.js$/, /\.map$/, /^robots\.txt$/];
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap((name) => {
+    const file = path.join(dir, name);
+    return statSync(file).isDirectory() ? listFiles(file) : [file];
+  });
+
+// Writes sw.js into the build output with every emitted file precached: the
+// app shell, blueprints, icons and bundled graph data. The cache version is a
+// hash of those files, so any change installs a new worker and the app offers
+// to reload.
+export const serviceWorker = (): Plugin => {
+  let outDir = "dist";
+  let base = "/";
+
+  return {
+    name: "campus-map-service-worker",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      base = config.base;
+    },
+    writeBundle() {
+      const files = listFiles(outDir)
+        .map((file) => path.relative(outDir, file).split(path.sep).join("/"))
+        .filter((file) => !EXCLUDED.some((pattern) => pattern.test(file)))
+        .sort();
+
+      const hash = createHash("sha256");
+      files.forEach((file) => {
+        hash.update(file);
+        hash.update(readFileSync(path.join(outDir, file)));
+      });
+
+      const template = readFileSync(path.resolve(__dirname, "sw.js"), "utf8");
+      const worker = template
+        .replace("__CACHE_VERSION__", hash.digest("hex").slice(0, 12))
+        .replace("__PRECACHE_URLS__", JSON.stringify(files.map((file) => base + file), null, 2));
+
+      writeFileSync(path.join(outDir, "sw.js"), worker);
+    },
+  };
+};
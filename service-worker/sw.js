@@ -0,0 +1,68 @@
+// Offline support for the campus map. service-worker/plugin.ts fills in the
+// precache list and a version derived from the build output.
+const CACHE_VERSION = "__CACHE_VERSION__";
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const CACHE_PREFIX = "campus-map-";
+const PRECACHE = `${CACHE_PREFIX}precache-${CACHE_VERSION}`;
+const RUNTIME = `${CACHE_PREFIX}runtime`;
+
+self.addEventListener("install", (event) => {
+  // Wait in the background; the page asks before switching versions
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// Fresh when online, last good copy when not; used for the published map file
+// and anything else not known at build time
+const networkFirst = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Remote scripts and images are left to the browser; the app runs without them
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Every route is the same single-page app shell
+  if (request.mode === "navigate") {
+    event.respondWith(caches.match("/index.html").then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(url.pathname).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  event.respondWith(networkFirst(request));
+});
@@ -0,0 +1,59 @@
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CampusDataContext } from "@/hooks/use-campus-data";
+import { CAMPUS_DATA_URL, LoadedCampus, bundledCampusData, loadCampusData } from "@/lib/campusLoader";
+import { buildGraph } from "@/lib/graph";
+import { campusGraph } from "@/data/roomData";
+import { replaceFloors } from "@/data/floorData";
+import { toast } from "@/components/ui/sonner";
+import { MapPin } from "lucide-react";
+
+// Loads the published map file once before anything routes, so deep links
+// and the graph never switch data mid-session
+const CampusDataProvider = ({ children }: { children: React.ReactNode }) => {
+  const { data, error } = useQuery({
+    queryKey: ["campus-data", CAMPUS_DATA_URL],
+    queryFn: async () => {
+      const result = await loadCampusData();
+      replaceFloors(result.data.floors);
+      return result;
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  // Anything thrown while loading falls back to the built-in map rather than
+  // leaving the loading screen up
+  const loaded = useMemo<LoadedCampus | undefined>(
+    () => (error ? { data: bundledCampusData, source: "bundled", errors: [error.message] } : data),
+    [data, error]
+  );
+
+  const value = useMemo(() => {
+    if (!loaded) return null;
+    const graph = loaded.source === "file" ? buildGraph(loaded.data.rooms) : campusGraph;
+    return { ...loaded, graph };
+  }, [loaded]);
+
+  useEffect(() => {
+    if (!loaded || loaded.errors.length === 0) return;
+
+    console.error(`Ignored ${CAMPUS_DATA_URL}:`, loaded.errors);
+    toast.error("Published map file was ignored", {
+      description: `${loaded.errors[0]}${loaded.errors.length > 1 ? ` (+${loaded.errors.length - 1} more)` : ""}. Showing the built-in map.`,
+    });
+  }, [loaded]);
+
+  if (!value) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-900 text-white">
+        <MapPin className="mr-2 animate-pulse" />
+        Loading map…
+      </div>
+    );
+  }
+
+  return <CampusDataContext.Provider value={value}>{children}</CampusDataContext.Provider>;
+};
+
+export default CampusDataProvider;
@@ -0,0 +1,69 @@
+import { RoomCategory, categoryInfo, legendCategories } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+interface CategoryFilterProps {
+  visibleCategories: RoomCategory[]; // Empty means show everything
+  onChange: (visibleCategories: RoomCategory[]) => void;
+}
+
+const CategoryFilter = ({ visibleCategories, onChange }: CategoryFilterProps) => {
+  const showingAll = visibleCategories.length === 0;
+
+  const toggleCategory = (category: RoomCategory) => {
+    if (visibleCategories.includes(category)) {
+      onChange(visibleCategories.filter(c => c !== category));
+    } else {
+      onChange([...visibleCategories, category]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium">Show only</h2>
+        {!showingAll && (
+          <button
+            onClick={() => onChange([])}
+            className="text-xs text-blue-300 hover:text-blue-200"
+          >
+            Show all
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {legendCategories.map(category => {
+          const info = categoryInfo[category];
+          const Icon = info.icon;
+          const active = visibleCategories.includes(category);
+
+          return (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              aria-pressed={active}
+              className={cn(
+                "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+                active
+                  ? "text-white"
+                  : showingAll
+                    ? "border-gray-500 text-gray-200 hover:bg-gray-600"
+                    : "border-gray-600 text-gray-400 hover:bg-gray-600"
+              )}
+              style={active ? { backgroundColor: info.color, borderColor: info.color } : undefined}
+            >
+              {active ? (
+                <Icon className="h-3 w-3" />
+              ) : (
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: info.color }} />
+              )}
+              {info.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryFilter;
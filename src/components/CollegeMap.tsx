@@ -1,8 +1,31 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useDeferredValue, useEffect, useMemo, useState } from "react";
 import { Room } from "@/lib/pathfinding";
+import { Instruction } from "@/lib/instructions";
+import { buildRouteTrack, getTrackPosition } from "@/lib/routeGeometry";
+import { CampusGraph } from "@/lib/graph";
+import { MapPoint, getPointDistance, getPolygonArea, isPointInPolygon } from "@/lib/geometry";
+import { RoomCategory, isCategoryVisible } from "@/lib/categories";
+import {
+  MapLayer,
+  MapRenderMode,
+  drawBlueprintLayer,
+  drawGraphLayer,
+  drawInteractionLayer,
+  drawMarkersLayer,
+  drawRouteLayer,
+  layoutRoomLabels,
+  loadBlueprint,
+  mapLayers,
+  prepareLayer,
+} from "@/lib/mapRenderer";
+import { Floor } from "@/data/floorData";
 import { cn } from "@/lib/utils";
-import { MapPin, Navigation, User } from "lucide-react";
+import { Keyboard, MapPin, Navigation, Pause, Play, Scan, Square, User } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import MapSvgLayer from "@/components/MapSvgLayer";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { getBounds, useMapViewport } from "@/hooks/use-map-viewport";
+import { useMapRenderMode } from "@/hooks/use-map-render-mode";
 import {
   Tooltip,
   TooltipContent,
@@ -15,485 +38,372 @@ import {
   HoverCardTrigger,
 } from "@/components/ui/hover-card";
 
+// Route playback: walker speed at 1× in map pixels per second, and how long
+// (as a distance along the track) the walker lingers on stairs or in a lift
+const PLAYBACK_SPEED = 120;
+const PLAYBACK_FLOOR_PAUSE = 120;
+const playbackSpeeds = [0.5, 1, 2, 4];
+
+// Clicks and hovers this close to a room marker pick that room
+const MARKER_HIT_RADIUS = 15;
+
+// Closest zoom when framing a route, step or single room
+const FIT_MAX_SCALE = 2.5;
+
+// Stable defaults, so the layers they feed aren't redrawn on every render
+const noStops: Room[] = [];
+const noCategories: RoomCategory[] = [];
+
 interface CollegeMapProps {
-  rooms: Room[];
+  graph: CampusGraph;
+  floors: Floor[];
   selectedStart: Room | null;
   selectedDestination: Room | null;
   path: Room[];
+  stops?: Room[]; // Intermediate itinerary stops, in visiting order
+  navigationStep?: Instruction | null; // Step being walked in step-through mode
+  visibleCategories?: RoomCategory[];
+  renderer?: MapRenderMode; // Chosen by the parent; the map controls can still switch it
   onRoomClick: (room: Room) => void;
 }
 
 const CollegeMap = ({
-  rooms,
+  graph,
+  floors,
   selectedStart,
   selectedDestination,
   path,
+  stops = noStops,
+  navigationStep = null,
+  visibleCategories = noCategories,
+  renderer: preferredRenderer,
   onRoomClick,
 }: CollegeMapProps) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [scale, setScale] = useState(1);
-  const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [dragging, setDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const layerRefs = useRef<Partial<Record<MapLayer, HTMLCanvasElement>>>({});
   const [userPosition, setUserPosition] = useState<{x: number, y: number} | null>(null);
   const [hoveredRoom, setHoveredRoom] = useState<Room | null>(null);
   const [mapSize, setMapSize] = useState({ width: 0, height: 0 });
-  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0, dpr: 1 });
+  const [blueprint, setBlueprint] = useState<{ src: string; image: HTMLImageElement } | null>(null);
+  const [activeLevel, setActiveLevel] = useState(floors[0]?.level ?? 1);
+  const [renderer, setRenderer] = useMapRenderMode(preferredRenderer);
   const isMobile = useIsMobile();
+  const {
+    viewport,
+    dragging,
+    zoomAt,
+    centerContent,
+    fitBounds,
+    toMapPoint,
+    consumeGestureClick,
+    handlers: viewportHandlers,
+  } = useMapViewport(mapContainerRef, mapSize);
+  
+  // Animated walk along the route; null until playback is first started
+  const [playback, setPlayback] = useState<{ distance: number; playing: boolean } | null>(null);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const track = useMemo(() => buildRouteTrack(path, PLAYBACK_FLOOR_PAUSE), [path]);
+  const isPlaying = playback?.playing ?? false;
+  const walker = useMemo(
+    () => (playback && !navigationStep ? getTrackPosition(track, playback.distance) : null),
+    [playback, navigationStep, track]
+  );
+  const playbackDistance = playback?.distance ?? 0;
+  const walkerFloor = walker?.floor;
+  
+  // A new route starts with playback stopped
+  const [playbackTrack, setPlaybackTrack] = useState(track);
+  if (track !== playbackTrack) {
+    setPlaybackTrack(track);
+    setPlayback(null);
+  }
+  
+  // Read by the blueprint loader, which must not undo the step-through camera
+  const navigationStepRef = useRef(navigationStep);
+  navigationStepRef.current = navigationStep;
+
+  const activeFloor = floors.find(f => f.level === activeLevel) ?? floors[0];
+  const floorRooms = useMemo(() => graph.rooms.filter(room => room.floor === activeLevel), [graph, activeLevel]);
+  
+  // Until the new floor's blueprint arrives, the previous one is not shown
+  const blueprintImage = blueprint?.src === activeFloor.blueprint ? blueprint.image : null;
+  const isMapLoaded = blueprintImage !== null;
+  
+  // Rooms the category filter hides, unless they are part of the current route
+  const hiddenRooms = useMemo(() => {
+    const onRoute = new Set([selectedStart, selectedDestination, ...stops, ...path].map(room => room?.id));
+    return new Set(
+      graph.rooms.filter(room => !isCategoryVisible(room, visibleCategories) && !onRoute.has(room.id)).map(room => room.id)
+    );
+  }, [graph, visibleCategories, selectedStart, selectedDestination, stops, path]);
+  const isMarkerHidden = (room: Room) => hiddenRooms.has(room.id);
+  const pathLevels = new Set(path.map(room => room.floor));
+  
+  // "Fit route" frames this floor's part of the route, or else the chosen room
+  const routeOnFloor = path.length > 1 ? path.filter(room => room.floor === activeLevel) : [];
+  const focusRoom = selectedDestination ?? selectedStart;
+  const fitRooms = routeOnFloor.length > 0 ? routeOnFloor : focusRoom?.floor === activeLevel ? [focusRoom] : [];
+  
+  const fitRoute = () => {
+    if (routeOnFloor.length === 0) return false;
+    fitBounds(getBounds(routeOnFloor), FIT_MAX_SCALE);
+    return true;
+  };
+  const fitView = () => {
+    if (fitRooms.length > 0) fitBounds(getBounds(fitRooms), FIT_MAX_SCALE);
+  };
+  
+  // Read by the blueprint loader and route effect, which run on their own schedule
+  const fitRouteRef = useRef(fitRoute);
+  fitRouteRef.current = fitRoute;
+
+  // Follow the start point to its floor whenever it changes
+  useEffect(() => {
+    if (selectedStart) {
+      setActiveLevel(selectedStart.floor);
+    }
+  }, [selectedStart]);
 
+  // Each blueprint is decoded once and kept; switching back to a floor is instant
   useEffect(() => {
-    const preloadImage = new Image();
-    preloadImage.src = "/lovable-uploads/869cfbb7-7043-4b0b-97be-49875acf0122.png";
-    preloadImage.onload = () => {
-      setIsMapLoaded(true);
+    let cancelled = false;
+    const src = activeFloor.blueprint;
+    loadBlueprint(src)
+      .then(image => {
+        if (!cancelled) setBlueprint({ src, image });
+      })
+      .catch(error => console.error("Failed to load floor plan:", error));
+    return () => {
+      cancelled = true;
     };
-  }, []);
+  }, [activeFloor.blueprint]);
 
   useEffect(() => {
-    const mapContainer = mapContainerRef.current;
-    const canvas = canvasRef.current;
+    if (!blueprintImage) return;
     
-    if (!mapContainer || !canvas || !isMapLoaded) return;
+    const size = { width: blueprintImage.naturalWidth, height: blueprintImage.naturalHeight };
+    setMapSize(size);
     
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    if (navigationStepRef.current) return;
     
-    const blueprintImage = new Image();
-    blueprintImage.src = "/lovable-uploads/869cfbb7-7043-4b0b-97be-49875acf0122.png";
+    // Frame the route on this floor if there is one, otherwise show the whole floor
+    if (!fitRouteRef.current()) {
+      centerContent(size);
+    }
     
-    blueprintImage.onload = () => {
-      canvas.width = blueprintImage.width;
-      canvas.height = blueprintImage.height;
-      
-      setMapSize({
-        width: blueprintImage.width,
-        height: blueprintImage.height
+    if (selectedStart && selectedStart.floor === activeLevel) {
+      setUserPosition({
+        x: selectedStart.x,
+        y: selectedStart.y
       });
-      
-      setPosition({
-        x: (mapContainer.offsetWidth - blueprintImage.width * scale) / 2,
-        y: (mapContainer.offsetHeight - blueprintImage.height * scale) / 2,
-      });
-      
-      if (selectedStart) {
-        setUserPosition({
-          x: selectedStart.x,
-          y: selectedStart.y
-        });
-      } else {
-        setUserPosition({
-          x: blueprintImage.width / 2,
-          y: blueprintImage.height / 2
-        });
-      }
-      
-      drawMap();
-    };
-  }, [selectedStart, scale, isMapLoaded]);
-
-  useEffect(() => {
-    const handleResize = () => {
-      const mapContainer = mapContainerRef.current;
-      if (!mapContainer || !mapSize.width) return;
-
-      setPosition({
-        x: (mapContainer.offsetWidth - mapSize.width * scale) / 2,
-        y: (mapContainer.offsetHeight - mapSize.height * scale) / 2,
+    } else {
+      setUserPosition({
+        x: size.width / 2,
+        y: size.height / 2
       });
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [mapSize, scale]);
+    }
+  }, [selectedStart, blueprintImage, activeLevel, centerContent]);
 
+  // In step-through mode, frame the active step and put the marker where it begins
   useEffect(() => {
-    drawMap();
-  }, [selectedStart, selectedDestination, path, scale, position, userPosition, hoveredRoom, isMapLoaded]);
-
-  const drawMap = () => {
-    const canvas = canvasRef.current;
-    if (!canvas || !isMapLoaded) return;
-    
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw blueprint background
-    const blueprintImage = new Image();
-    blueprintImage.src = "/lovable-uploads/869cfbb7-7043-4b0b-97be-49875acf0122.png";
-    ctx.drawImage(blueprintImage, 0, 0, canvas.width, canvas.height);
+    const mapContainer = mapContainerRef.current;
+    if (!navigationStep || !mapContainer || !isMapLoaded) return;
     
-    // Draw all waypoints first (as small dots)
-    rooms.forEach((room) => {
-      if (room.type === "waypoint") {
-        ctx.beginPath();
-        ctx.fillStyle = "rgba(107, 114, 128, 0.3)";
-        ctx.arc(room.x, room.y, 3, 0, 2 * Math.PI);
-        ctx.fill();
-      }
-    });
+    const stepStart = path[navigationStep.startIndex];
+    if (!stepStart) return;
+    if (stepStart.floor !== activeLevel) {
+      setActiveLevel(stepStart.floor);
+      return;
+    }
     
-    // Draw connections between rooms
-    rooms.forEach((room) => {
-      room.connections.forEach((connectionId) => {
-        const connectedRoom = rooms.find(r => r.id === connectionId);
-        if (connectedRoom) {
-          ctx.beginPath();
-          ctx.strokeStyle = "rgba(107, 114, 128, 0.15)";
-          ctx.lineWidth = 1;
-          ctx.moveTo(room.x, room.y);
-          ctx.lineTo(connectedRoom.x, connectedRoom.y);
-          ctx.stroke();
-        }
-      });
-    });
+    setUserPosition({ x: stepStart.x, y: stepStart.y });
     
-    if (path.length > 1) {
-      // Draw path as orthogonal segments (Manhattan-style)
-      ctx.beginPath();
-      ctx.strokeStyle = "rgba(59, 130, 246, 0.4)";
-      ctx.lineWidth = 16;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      
-      for (let i = 0; i < path.length - 1; i++) {
-        const start = path[i];
-        const end = path[i + 1];
-        
-        // Draw an L-shaped path segment
-        ctx.moveTo(start.x, start.y);
-        
-        // Check if this is a diagonal segment
-        if (Math.abs(start.x - end.x) > 10 && Math.abs(start.y - end.y) > 10) {
-          // Draw as an L-shape (horizontal then vertical)
-          ctx.lineTo(end.x, start.y);
-          ctx.lineTo(end.x, end.y);
-        } else {
-          // Draw direct line for mostly horizontal or vertical segments
-          ctx.lineTo(end.x, end.y);
-        }
-      }
-      
-      ctx.stroke();
-      
-      // Draw path foreground (thinner line)
-      ctx.beginPath();
-      ctx.strokeStyle = "#3b82f6";
-      ctx.lineWidth = 8;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      
-      for (let i = 0; i < path.length - 1; i++) {
-        const start = path[i];
-        const end = path[i + 1];
-        
-        // Draw an L-shaped path segment
-        ctx.moveTo(start.x, start.y);
-        
-        // Check if this is a diagonal segment
-        if (Math.abs(start.x - end.x) > 10 && Math.abs(start.y - end.y) > 10) {
-          // Draw as an L-shape (horizontal then vertical)
-          ctx.lineTo(end.x, start.y);
-          ctx.lineTo(end.x, end.y);
-        } else {
-          // Draw direct line for mostly horizontal or vertical segments
-          ctx.lineTo(end.x, end.y);
-        }
-      }
-      
-      ctx.stroke();
+    const points = path
+      .slice(navigationStep.startIndex, navigationStep.endIndex + 1)
+      .filter(room => room.floor === activeLevel);
+    fitBounds(getBounds(points), FIT_MAX_SCALE);
+  }, [navigationStep, path, isMapLoaded, activeLevel, fitBounds]);
+  
+  // Bring a newly found route into view; step-through does its own framing
+  useEffect(() => {
+    if (isMapLoaded && !navigationStepRef.current) {
+      fitRouteRef.current();
     }
-    
-    // Draw all rooms and important locations
-    rooms.forEach((room) => {
-      if (room.type !== "waypoint") {
-        const isStart = selectedStart?.id === room.id;
-        const isDestination = selectedDestination?.id === room.id;
-        const isOnPath = path.some((pathRoom) => pathRoom.id === room.id);
-        const isHovered = hoveredRoom?.id === room.id;
-        
-        // Draw all room points with improved visibility
-        ctx.beginPath();
-        
-        if (isStart) {
-          // Start point styling
-          const labelText = "START";
-          ctx.font = "bold 18px Arial";
-          ctx.fillStyle = "#3b82f6";
-          ctx.textAlign = "center";
-          ctx.fillText(labelText, room.x, room.y - 30);
-          
-          ctx.fillStyle = "#3b82f6";
-          ctx.arc(room.x, room.y, isHovered ? 14 : 12, 0, 2 * Math.PI);
-        } else if (isDestination) {
-          // Destination point styling
-          const labelText = "DESTINATION";
-          ctx.font = "bold 18px Arial";
-          ctx.fillStyle = "#ef4444";
-          ctx.textAlign = "center";
-          ctx.fillText(labelText, room.x, room.y - 30);
-          
-          ctx.fillStyle = "#ef4444";
-          ctx.arc(room.x, room.y, isHovered ? 14 : 12, 0, 2 * Math.PI);
-        } else if (isOnPath) {
-          // Path point styling
-          ctx.fillStyle = isHovered ? "#a855f7" : "#8b5cf6";
-          ctx.arc(room.x, room.y, isHovered ? 12 : 10, 0, 2 * Math.PI);
-        } else {
-          // Regular room point styling - more visible now
-          ctx.fillStyle = isHovered ? "rgba(107, 114, 128, 0.9)" : "rgba(107, 114, 128, 0.7)";
-          ctx.arc(room.x, room.y, isHovered ? 9 : 7, 0, 2 * Math.PI);
-        }
-        
-        ctx.fill();
-        
-        // Add white center to all room points for better visibility
-        ctx.beginPath();
-        ctx.fillStyle = "#ffffff";
-        
-        if (isStart || isDestination) {
-          ctx.arc(room.x, room.y, 6, 0, 2 * Math.PI);
-        } else if (isOnPath) {
-          ctx.arc(room.x, room.y, 4, 0, 2 * Math.PI);
-        } else {
-          // Regular rooms get smaller white center
-          ctx.arc(room.x, room.y, 3, 0, 2 * Math.PI);
-        }
-        
-        ctx.fill();
-        
-        // Always show room name if hovered
-        if (isHovered && room.name) {
-          ctx.font = "bold 16px Arial";
-          ctx.fillStyle = "#000000";
-          ctx.textAlign = "center";
-          
-          const textWidth = ctx.measureText(room.name).width;
-          const padding = 6;
-          
-          ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
-          ctx.fillRect(
-            room.x - textWidth/2 - padding,
-            room.y - 30 - padding,
-            textWidth + padding * 2,
-            24
-          );
-          
-          ctx.fillStyle = "#000000";
-          ctx.fillText(room.name, room.x, room.y - 20);
-        }
-        // Show permanent labels for important points in path
-        else if (isStart || isDestination || (isOnPath && (room.type === "room" || room.type === "entrance" || room.type === "stairs"))) {
-          ctx.font = "bold 14px Arial";
-          ctx.fillStyle = "#000000";
-          ctx.textAlign = "center";
-          
-          const textWidth = ctx.measureText(room.name).width;
-          const padding = 4;
-          
-          if (!(isStart || isDestination)) {
-            ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
-            ctx.fillRect(
-              room.x - textWidth/2 - padding,
-              room.y - 20 - padding,
-              textWidth + padding * 2,
-              20
-            );
-            
-            ctx.fillStyle = "#000000";
-            ctx.fillText(room.name, room.x, room.y - 10);
-          }
-        }
-        // Add small name label for notable locations even when not on path
-        else if (room.type === "entrance" || room.type === "stairs") {
-          ctx.font = "12px Arial";
-          ctx.fillStyle = "#000000";
-          ctx.textAlign = "center";
-          
-          const textWidth = ctx.measureText(room.name).width;
-          const padding = 3;
-          
-          ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
-          ctx.fillRect(
-            room.x - textWidth/2 - padding,
-            room.y - 20 - padding,
-            textWidth + padding * 2,
-            18
-          );
-          
-          ctx.fillStyle = "#000000";
-          ctx.fillText(room.name, room.x, room.y - 10);
-        }
-      }
-    });
+  }, [path, isMapLoaded]);
 
-    if (userPosition) {
-      ctx.beginPath();
-      ctx.fillStyle = "rgba(249, 115, 22, 0.3)";
-      ctx.arc(userPosition.x, userPosition.y, 15, 0, 2 * Math.PI);
-      ctx.fill();
-      
-      ctx.beginPath();
-      ctx.fillStyle = "#f97316";
-      ctx.arc(userPosition.x, userPosition.y, 10, 0, 2 * Math.PI);
-      ctx.fill();
-      
-      ctx.beginPath();
-      ctx.fillStyle = "#ffffff";
-      ctx.arc(userPosition.x, userPosition.y, 5, 0, 2 * Math.PI);
-      ctx.fill();
-      
-      const isAtPoint = (selectedStart && 
-        Math.abs(userPosition.x - selectedStart.x) < 10 && 
-        Math.abs(userPosition.y - selectedStart.y) < 10) || 
-        (selectedDestination && 
-         Math.abs(userPosition.x - selectedDestination.x) < 10 && 
-         Math.abs(userPosition.y - selectedDestination.y) < 10);
+  // Advance the walker every animation frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    
+    let frame: number;
+    let lastTime = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - lastTime) / 1000;
+      lastTime = now;
       
-      if (!isAtPoint) {
-        const youAreHereText = "You are here";
-        ctx.font = "bold 14px Arial";
-        
-        const textWidth = ctx.measureText(youAreHereText).width;
-        
-        ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
-        ctx.fillRect(
-          userPosition.x - textWidth/2 - 5,
-          userPosition.y - 35,
-          textWidth + 10,
-          22
-        );
-        
-        ctx.fillStyle = "#000000";
-        ctx.textAlign = "center";
-        ctx.fillText(youAreHereText, userPosition.x, userPosition.y - 20);
-      }
+      setPlayback(current => {
+        if (!current) return current;
+        const distance = Math.min(current.distance + elapsed * PLAYBACK_SPEED * playbackSpeed, track.length);
+        return { distance, playing: distance < track.length };
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, playbackSpeed, track]);
+  
+  // Follow the walker up and down stairs
+  useEffect(() => {
+    if (isPlaying && walkerFloor !== undefined) {
+      setActiveLevel(walkerFloor);
     }
-  };
-
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setDragging(true);
-    setDragStart({ x: e.clientX - position.x, y: e.clientY - position.y });
-  };
+  }, [isPlaying, walkerFloor]);
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    handleHoverCheck(e);
+  // Layers cover the map area at device resolution; browser zoom changes the ratio
+  useEffect(() => {
+    const mapContainer = mapContainerRef.current;
+    if (!mapContainer) return;
     
-    if (!dragging) return;
+    const measure = () => setCanvasSize({
+      width: mapContainer.clientWidth,
+      height: mapContainer.clientHeight,
+      dpr: window.devicePixelRatio || 1,
+    });
     
-    const newPosition = {
-      x: e.clientX - dragStart.x,
-      y: e.clientY - dragStart.y,
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(mapContainer);
+    window.addEventListener("resize", measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("resize", measure);
     };
-    
-    setPosition(newPosition);
-  };
+  }, []);
 
-  const handleTouchStart = (e: React.TouchEvent) => {
-    if (e.touches.length === 1) {
-      setDragging(true);
-      setDragStart({ 
-        x: e.touches[0].clientX - position.x, 
-        y: e.touches[0].clientY - position.y 
-      });
-    }
-  };
+  // What each layer shows; a layer redraws when its scene or the viewport changes
+  const graphScene = useMemo(
+    () => ({ rooms: floorRooms, edges: graph.edges, level: activeLevel, hidden: hiddenRooms, selectedStart, selectedDestination }),
+    [floorRooms, graph.edges, activeLevel, hiddenRooms, selectedStart, selectedDestination]
+  );
+  const routeScene = useMemo(
+    () => ({ path, level: activeLevel, floors, navigationStep, track, walker, playbackDistance }),
+    [path, activeLevel, floors, navigationStep, track, walker, playbackDistance]
+  );
+  const markerRoles = useMemo(
+    () => ({ rooms: floorRooms, hidden: hiddenRooms, selectedStart, selectedDestination, stops, path }),
+    [floorRooms, hiddenRooms, selectedStart, selectedDestination, stops, path]
+  );
+  // Labels follow the zoom but not panning. The deferred scale keeps the layout off
+  // the frames of a pinch or fit animation, and nothing is laid out before the blueprint loads.
+  const labelScale = useDeferredValue(viewport.scale);
+  const roomLabels = useMemo(
+    () => (isMapLoaded ? layoutRoomLabels(markerRoles, labelScale) : []),
+    [isMapLoaded, markerRoles, labelScale]
+  );
+  const markersScene = useMemo(() => ({ ...markerRoles, labels: roomLabels }), [markerRoles, roomLabels]);
+  const interactionScene = useMemo(
+    () => ({
+      level: activeLevel,
+      scale: viewport.scale,
+      hoveredRoom,
+      walker,
+      userPosition,
+      selectedStart,
+      selectedDestination,
+      stops,
+      path,
+    }),
+    [activeLevel, viewport.scale, hoveredRoom, walker, userPosition, selectedStart, selectedDestination, stops, path]
+  );
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!dragging || e.touches.length !== 1) return;
-    
-    const newPosition = {
-      x: e.touches[0].clientX - dragStart.x,
-      y: e.touches[0].clientY - dragStart.y,
-    };
-    
-    setPosition(newPosition);
-    e.preventDefault();
-  };
+  // Only the canvas renderer has layers to paint; switching back to it mounts
+  // fresh canvases, so the renderer is a dependency of every layer
+  const view = useMemo(() => ({ ...viewport, ...canvasSize }), [viewport, canvasSize]);
 
-  const handleTouchEnd = () => {
-    setDragging(false);
-  };
+  useEffect(() => {
+    if (renderer !== "canvas") return;
+    const ctx = prepareLayer(layerRefs.current.blueprint, view);
+    if (ctx && blueprintImage) drawBlueprintLayer(ctx, blueprintImage);
+  }, [renderer, view, blueprintImage]);
 
-  const handleMouseUp = () => {
-    setDragging(false);
-  };
+  useEffect(() => {
+    if (renderer !== "canvas") return;
+    const ctx = prepareLayer(layerRefs.current.graph, view);
+    if (ctx) drawGraphLayer(ctx, graphScene);
+  }, [renderer, view, graphScene]);
 
-  const handleHoverCheck = (e: React.MouseEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  useEffect(() => {
+    if (renderer !== "canvas") return;
+    const ctx = prepareLayer(layerRefs.current.route, view);
+    if (ctx) drawRouteLayer(ctx, routeScene);
+  }, [renderer, view, routeScene]);
 
-    const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left - position.x) / scale;
-    const y = (e.clientY - rect.top - position.y) / scale;
-    
-    const roomUnderMouse = rooms.find(room => {
-      const distance = Math.sqrt(Math.pow(room.x - x, 2) + Math.pow(room.y - y, 2));
-      return distance < 15 && room.type !== "waypoint";
-    });
-    
-    setHoveredRoom(roomUnderMouse || null);
-  };
+  useEffect(() => {
+    if (renderer !== "canvas") return;
+    const ctx = prepareLayer(layerRefs.current.markers, view);
+    if (ctx) drawMarkersLayer(ctx, markersScene);
+  }, [renderer, view, markersScene]);
+
+  useEffect(() => {
+    if (renderer !== "canvas") return;
+    const ctx = prepareLayer(layerRefs.current.interaction, view);
+    if (ctx) drawInteractionLayer(ctx, interactionScene);
+  }, [renderer, view, interactionScene]);
 
-  const handleMouseLeave = () => {
-    setDragging(false);
-    setHoveredRoom(null);
+  // Markers win over footprints; of overlapping footprints the smallest is the most specific
+  const findRoomAt = (point: MapPoint): Room | undefined => {
+    const candidates = floorRooms.filter(room => room.type !== "waypoint" && !isMarkerHidden(room));
+    const marker = candidates.find(room => getPointDistance(room, point) < MARKER_HIT_RADIUS);
+    if (marker) return marker;
+    
+    return candidates
+      .filter(room => room.footprint && isPointInPolygon(point, room.footprint))
+      .sort((a, b) => getPolygonArea(a.footprint) - getPolygonArea(b.footprint))[0];
   };
 
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    const newScale = scale - e.deltaY * 0.001;
-    setScale(Math.min(Math.max(0.5, newScale), 3));
+  const handlePointerMove = (e: React.PointerEvent) => {
+    viewportHandlers.onPointerMove(e);
+    
+    // Touch has no hover; a tap selects instead
+    if (e.pointerType === "mouse") {
+      setHoveredRoom(findRoomAt(toMapPoint(e.clientX, e.clientY)) || null);
+    }
   };
 
   const handleMapClick = (e: React.MouseEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left - position.x) / scale;
-    const y = (e.clientY - rect.top - position.y) / scale;
+    // The click that ends a pan, pinch or double tap is not a selection
+    if (consumeGestureClick()) return;
     
-    setUserPosition({ x, y });
+    const point = toMapPoint(e.clientX, e.clientY);
+    setUserPosition(point);
     
-    const clickedRoom = rooms.find(room => {
-      const distance = Math.sqrt(Math.pow(room.x - x, 2) + Math.pow(room.y - y, 2));
-      return distance < 15 && room.type !== "waypoint";
-    });
+    const clickedRoom = findRoomAt(point);
     
     if (clickedRoom) {
       onRoomClick(clickedRoom);
     }
   };
 
-  const zoomIn = () => setScale(Math.min(scale + 0.1, 3));
-  const zoomOut = () => setScale(Math.max(scale - 0.1, 0.5));
-  const resetZoom = () => {
-    setScale(1);
-    const mapContainer = mapContainerRef.current;
-    if (!mapContainer || !mapSize.width) return;
-    
-    setPosition({
-      x: (mapContainer.offsetWidth - mapSize.width) / 2,
-      y: (mapContainer.offsetHeight - mapSize.height) / 2,
-    });
+  // Keyboard selection of a focused SVG marker
+  const handleRoomActivate = (room: Room) => {
+    setUserPosition({ x: room.x, y: room.y });
+    onRoomClick(room);
   };
 
+  const zoomIn = () => zoomAt(1.25);
+  const zoomOut = () => zoomAt(0.8);
+  const resetZoom = () => centerContent(mapSize, 1);
+
   return (
     <div 
       ref={mapContainerRef}
-      className="relative w-full h-full bg-gray-900 overflow-hidden"
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseLeave}
-      onWheel={handleWheel}
+      className="relative w-full h-full bg-gray-900 overflow-hidden touch-none select-none"
+      {...viewportHandlers}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => setHoveredRoom(null)}
       onClick={handleMapClick}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
     >
       {!isMapLoaded && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
@@ -506,19 +416,39 @@ const CollegeMap = ({
       
       <div
         className={cn(
-          "absolute transition-transform", 
+          "absolute inset-0", 
           dragging ? "cursor-grabbing" : "cursor-grab",
           !isMapLoaded && "opacity-0"
         )}
-        style={{
-          transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
-          transformOrigin: "0 0",
-        }}
       >
-        <canvas ref={canvasRef} />
+        {renderer === "svg" ? (
+          <MapSvgLayer
+            viewport={viewport}
+            blueprint={activeFloor.blueprint}
+            mapSize={mapSize}
+            floorName={activeFloor.name}
+            graph={graphScene}
+            route={routeScene}
+            markers={markersScene}
+            interaction={interactionScene}
+            onRoomFocus={setHoveredRoom}
+            onRoomActivate={handleRoomActivate}
+          />
+        ) : (
+          mapLayers.map((layer) => (
+            <canvas
+              key={layer}
+              ref={(canvas) => { layerRefs.current[layer] = canvas; }}
+              className="absolute inset-0 w-full h-full"
+            />
+          ))
+        )}
       </div>
       
-      <div className="absolute bottom-4 right-4 bg-gray-800/90 backdrop-blur-sm rounded-md shadow-md p-2 flex gap-1">
+      <div
+        className="absolute bottom-4 right-4 bg-gray-800/90 backdrop-blur-sm rounded-md shadow-md p-2 flex gap-1"
+        onClick={(e) => e.stopPropagation()}
+      >
         <button 
           className="p-2 hover:bg-gray-700 rounded-md w-8 h-8 flex items-center justify-center text-white"
           onClick={zoomIn}
@@ -540,8 +470,100 @@ const CollegeMap = ({
         >
           ↺
         </button>
+        <button 
+          className="p-2 hover:bg-gray-700 rounded-md w-8 h-8 flex items-center justify-center text-white disabled:opacity-40 disabled:hover:bg-transparent"
+          onClick={fitView}
+          disabled={fitRooms.length === 0}
+          aria-label={routeOnFloor.length > 0 ? "Fit route" : "Fit selected room"}
+          title={routeOnFloor.length > 0 ? "Fit route" : "Fit selected room"}
+        >
+          <Scan className="h-4 w-4" />
+        </button>
+        <button 
+          className={cn(
+            "p-2 hover:bg-gray-700 rounded-md w-8 h-8 flex items-center justify-center text-white",
+            renderer === "svg" && "bg-gray-700"
+          )}
+          onClick={() => setRenderer(renderer === "svg" ? "canvas" : "svg")}
+          aria-pressed={renderer === "svg"}
+          aria-label="Keyboard-accessible map"
+          title={renderer === "svg" ? "Keyboard-accessible map: on" : "Keyboard-accessible map: off"}
+        >
+          <Keyboard className="h-4 w-4" />
+        </button>
       </div>
       
+      {path.length > 1 && !navigationStep && (
+        <div
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-gray-800/90 backdrop-blur-sm rounded-md shadow-md p-2 flex items-center gap-2 text-white w-[min(22rem,calc(100%-14rem))] min-w-[12rem]"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <button
+            className="p-2 hover:bg-gray-700 rounded-md w-8 h-8 flex items-center justify-center"
+            onClick={() => setPlayback(current => ({
+              // Replay from the start once the walker has arrived
+              distance: current && current.distance < track.length ? current.distance : 0,
+              playing: !current?.playing,
+            }))}
+            aria-label={isPlaying ? "Pause route playback" : "Play route"}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          {playback && (
+            <button
+              className="p-2 hover:bg-gray-700 rounded-md w-8 h-8 flex items-center justify-center"
+              onClick={() => setPlayback(null)}
+              aria-label="Stop route playback"
+            >
+              <Square className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <Slider
+            min={0}
+            max={Math.max(track.length, 1)}
+            step={1}
+            value={[playback?.distance ?? 0]}
+            onValueChange={([distance]) => setPlayback(current => ({ distance, playing: current?.playing ?? false }))}
+            className="flex-1"
+            aria-label="Route playback progress"
+          />
+          <button
+            className="px-2 h-8 hover:bg-gray-700 rounded-md text-xs font-medium tabular-nums"
+            onClick={() => setPlaybackSpeed(playbackSpeeds[(playbackSpeeds.indexOf(playbackSpeed) + 1) % playbackSpeeds.length])}
+            aria-label="Change playback speed"
+          >
+            {playbackSpeed}×
+          </button>
+        </div>
+      )}
+      
+      {floors.length > 1 && (
+        <div
+          className="absolute bottom-4 left-4 bg-gray-800/90 backdrop-blur-sm rounded-md shadow-md p-2 flex flex-col-reverse gap-1"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {floors.map((floor) => (
+            <button
+              key={`${floor.building}-${floor.level}`}
+              className={cn(
+                "relative px-3 h-8 rounded-md text-xs font-medium text-white flex items-center justify-center",
+                floor.level === activeLevel ? "bg-blue-600" : "hover:bg-gray-700"
+              )}
+              onClick={() => setActiveLevel(floor.level)}
+              aria-label={`Show ${floor.name}`}
+              aria-pressed={floor.level === activeLevel}
+            >
+              {floor.name}
+              {path.length > 1 && pathLevels.has(floor.level) && floor.level !== activeLevel && (
+                <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-violet-400" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      
       <div className="absolute top-4 left-4 bg-gray-800/80 backdrop-blur-sm rounded-md shadow-md p-3 text-sm space-y-1 text-white">
         {selectedStart && (
           <div className="flex items-center">
@@ -566,7 +588,7 @@ const CollegeMap = ({
       </div>
 
       <div className="absolute top-4 right-4 p-2 bg-gray-800/80 backdrop-blur-sm rounded-md text-xs text-gray-300">
-        Offline Map
+        Offline Map · {activeFloor.name}
       </div>
     </div>
   );
@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from "react";
+import { Room } from "@/lib/pathfinding";
+import { CampusGraph } from "@/lib/graph";
+import { getSearchableRooms, searchRooms } from "@/lib/search";
+import { getFloor } from "@/data/floorData";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { MapPin, Navigation } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type PickMode = "start" | "destination";
+
+// Alt+S / Alt+D jump to each end; matched on the physical key because macOS
+// Option turns the letters into other characters
+const modeShortcuts: Record<string, PickMode> = { KeyS: "start", KeyD: "destination" };
+
+interface CommandPaletteProps {
+  graph: CampusGraph;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedStart: Room | null;
+  selectedDestination: Room | null;
+  onSelectStart: (room: Room) => void;
+  onSelectDestination: (room: Room) => void;
+}
+
+const CommandPalette = ({
+  graph,
+  open,
+  onOpenChange,
+  selectedStart,
+  selectedDestination,
+  onSelectStart,
+  onSelectDestination,
+}: CommandPaletteProps) => {
+  const [mode, setMode] = useState<PickMode>("start");
+  const [query, setQuery] = useState("");
+
+  const rooms = useMemo(() => getSearchableRooms(graph), [graph]);
+  const results = useMemo(() => searchRooms(rooms, query), [rooms, query]);
+
+  // Ctrl+K / Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Each time it opens, pick whichever end of the route is still missing
+  const [wasOpen, setWasOpen] = useState(open);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setMode(selectedStart && !selectedDestination ? "destination" : "start");
+      setQuery("");
+    }
+  }
+
+  const handleSelect = (room: Room) => {
+    setQuery("");
+
+    if (mode === "start") {
+      onSelectStart(room);
+      setMode("destination");
+    } else {
+      onSelectDestination(room);
+      onOpenChange(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Tab is left alone so keyboard users can still move between the controls
+    const shortcut = modeShortcuts[e.code];
+    if (shortcut && e.altKey && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      setMode(shortcut);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search rooms</DialogTitle>
+        <Command
+          shouldFilter={false}
+          onKeyDown={handleKeyDown}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <div className="flex gap-2 px-3 pt-3 text-xs">
+            {(["start", "destination"] as PickMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                aria-pressed={mode === option}
+                aria-keyshortcuts={option === "start" ? "Alt+S" : "Alt+D"}
+                className={cn(
+                  "flex items-center gap-1 rounded-full px-3 py-1 border",
+                  mode === option ? "bg-primary text-primary-foreground" : "text-muted-foreground"
+                )}
+              >
+                {option === "start" ? <MapPin className="h-3 w-3" /> : <Navigation className="h-3 w-3" />}
+                {option === "start" ? "From" : "To"}:{" "}
+                {(option === "start" ? selectedStart : selectedDestination)?.name ?? "—"}
+              </button>
+            ))}
+            <span className="ml-auto self-center text-muted-foreground">Alt+S / Alt+D to switch</span>
+          </div>
+
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={mode === "start" ? "Where are you? e.g. main entrance" : "Where to? e.g. principal, AI&DS, restroom"}
+          />
+
+          <CommandList>
+            <CommandEmpty>No matching places.</CommandEmpty>
+            <CommandGroup heading={mode === "start" ? "Set starting point" : "Set destination"}>
+              {results.map(({ room, matchedText }) => (
+                <CommandItem key={room.id} value={room.id} onSelect={() => handleSelect(room)}>
+                  {mode === "start"
+                    ? <MapPin className="mr-2 h-4 w-4 text-blue-500" />
+                    : <Navigation className="mr-2 h-4 w-4 text-red-500" />}
+                  <span>{room.name}</span>
+                  {matchedText !== room.name && matchedText !== room.id && (
+                    <span className="ml-2 text-xs text-muted-foreground">“{matchedText}”</span>
+                  )}
+                  <CommandShortcut>{getFloor(room.floor, room.building).name}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
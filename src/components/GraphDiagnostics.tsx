@@ -0,0 +1,95 @@
+import { useMemo, useState } from "react";
+import { Room } from "@/lib/pathfinding";
+import { GraphIssueKind, validateGraph } from "@/lib/graphValidation";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { AlertTriangle, CheckCircle2, ChevronDown, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface GraphDiagnosticsProps {
+  rooms: Room[];
+}
+
+const issueLabels: Record<GraphIssueKind, string> = {
+  "duplicate-id": "Duplicate ids",
+  "dangling-connection": "Dangling connections",
+  "one-way-edge": "One-way connections",
+  "zero-length-edge": "Zero-length connections",
+  "cross-floor-edge": "Connections between floors",
+  "unreachable-component": "Unreachable nodes",
+  "unnamed-node": "Unnamed nodes",
+};
+
+const GraphDiagnostics = ({ rooms }: GraphDiagnosticsProps) => {
+  const [open, setOpen] = useState(false);
+  const report = useMemo(() => validateGraph(rooms), [rooms]);
+
+  const errorCount = report.issues.filter(issue => issue.severity === "error").length;
+  const warningCount = report.issues.length - errorCount;
+
+  // Group issues by kind so the panel stays readable
+  const groups = (Object.keys(issueLabels) as GraphIssueKind[])
+    .map(kind => ({ kind, issues: report.issues.filter(issue => issue.kind === kind) }))
+    .filter(group => group.issues.length > 0);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="w-full flex items-center justify-between text-left">
+        <h2 className="text-lg font-medium">Map Diagnostics</h2>
+        <div className="flex items-center gap-2 text-xs">
+          {report.isValid && warningCount === 0 ? (
+            <span className="flex items-center gap-1 text-green-400">
+              <CheckCircle2 className="h-4 w-4" /> OK
+            </span>
+          ) : (
+            <>
+              {errorCount > 0 && (
+                <span className="flex items-center gap-1 text-red-400">
+                  <XCircle className="h-4 w-4" /> {errorCount}
+                </span>
+              )}
+              {warningCount > 0 && (
+                <span className="flex items-center gap-1 text-amber-400">
+                  <AlertTriangle className="h-4 w-4" /> {warningCount}
+                </span>
+              )}
+            </>
+          )}
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        </div>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-3 space-y-3 text-sm text-gray-300">
+        <p className="text-xs text-gray-400">
+          {report.roomCount} nodes • {report.edgeCount} connections • {report.components.length} component(s)
+        </p>
+
+        {groups.map(group => (
+          <div key={group.kind}>
+            <h3 className="font-medium text-gray-200 mb-1">
+              {issueLabels[group.kind]} ({group.issues.length})
+            </h3>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {group.issues.map((issue, index) => (
+                <li
+                  key={`${group.kind}-${index}`}
+                  className={cn(
+                    "text-xs pl-2 border-l-2",
+                    issue.severity === "error" ? "border-red-400" : "border-amber-400"
+                  )}
+                >
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default GraphDiagnostics;
@@ -0,0 +1,146 @@
+import { Room } from "@/lib/pathfinding";
+import { CampusGraph } from "@/lib/graph";
+import { getSearchableRooms } from "@/lib/search";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, MapPin, Navigation, Route, X } from "lucide-react";
+
+interface ItineraryEditorProps {
+  graph: CampusGraph;
+  start: Room | null;
+  destination: Room | null;
+  stops: Room[]; // Intermediate stops between start and destination
+  optimize: boolean;
+  onStopsChange: (stops: Room[]) => void;
+  onOptimizeChange: (optimize: boolean) => void;
+}
+
+const ItineraryEditor = ({
+  graph,
+  start,
+  destination,
+  stops,
+  optimize,
+  onStopsChange,
+  onOptimizeChange,
+}: ItineraryEditorProps) => {
+  // Anything already on the trip cannot be added twice
+  const tripIds = new Set([start?.id, destination?.id, ...stops.map(stop => stop.id)]);
+  const candidates = getSearchableRooms(graph).filter(room => !tripIds.has(room.id));
+
+  const handleAdd = (value: string) => {
+    const room = candidates.find(r => r.id === value);
+    if (room) {
+      onStopsChange([...stops, room]);
+    }
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    const reordered = [...stops];
+    const [stop] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, stop);
+    onStopsChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium flex items-center gap-1">
+          <Route className="h-4 w-4" />
+          Stops
+        </h2>
+        {stops.length > 0 && (
+          <button
+            onClick={() => onStopsChange([])}
+            className="text-xs text-blue-300 hover:text-blue-200"
+          >
+            Remove all
+          </button>
+        )}
+      </div>
+
+      {start && destination ? (
+        <ol className="space-y-1 text-sm">
+          <li className="flex items-center gap-2 px-1 text-gray-300">
+            <MapPin className="h-4 w-4 text-blue-400 flex-shrink-0" />
+            <span className="truncate">{start.name}</span>
+          </li>
+
+          {stops.map((stop, index) => (
+            <li key={stop.id} className="flex items-center gap-2 rounded bg-gray-600/60 px-1 py-0.5">
+              <span className="w-4 h-4 rounded-full bg-amber-500 text-[10px] font-bold text-white flex items-center justify-center flex-shrink-0">
+                {index + 1}
+              </span>
+              <span className="flex-1 truncate">{stop.name}</span>
+              {!optimize && (
+                <>
+                  <button
+                    onClick={() => moveStop(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 rounded hover:bg-gray-500 disabled:opacity-30"
+                    aria-label={`Move ${stop.name} earlier`}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveStop(index, 1)}
+                    disabled={index === stops.length - 1}
+                    className="p-0.5 rounded hover:bg-gray-500 disabled:opacity-30"
+                    aria-label={`Move ${stop.name} later`}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onStopsChange(stops.filter(s => s.id !== stop.id))}
+                className="p-0.5 rounded hover:bg-gray-500"
+                aria-label={`Remove ${stop.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+
+          <li className="flex items-center gap-2 px-1 text-gray-300">
+            <Navigation className="h-4 w-4 text-red-400 flex-shrink-0" />
+            <span className="truncate">{destination.name}</span>
+          </li>
+        </ol>
+      ) : (
+        <p className="text-xs text-gray-400">
+          Choose a start and destination, then add the places to visit on the way.
+        </p>
+      )}
+
+      <Select value="" onValueChange={handleAdd} disabled={!start || !destination}>
+        <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-gray-200">
+          <SelectValue placeholder="Add a stop" />
+        </SelectTrigger>
+        <SelectContent>
+          {candidates.map((room) => (
+            <SelectItem key={room.id} value={room.id}>
+              {room.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <label className="flex items-center justify-between gap-2 text-sm text-gray-200">
+        <span>
+          Best visiting order
+          <span className="block text-xs text-gray-400">Start and destination stay fixed</span>
+        </span>
+        <Switch checked={optimize} onCheckedChange={onOptimizeChange} />
+      </label>
+    </div>
+  );
+};
+
+export default ItineraryEditor;
@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from "react";
+import { Room } from "@/lib/pathfinding";
+import { Floor } from "@/data/floorData";
+import { categoryInfo, getRoomCategory } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+export type EditorTool = "select" | "room" | "waypoint" | "connect" | "delete";
+
+interface MapEditorCanvasProps {
+  floor: Floor;
+  rooms: Room[];
+  tool: EditorTool;
+  zoom: number;
+  selectedId: string | null;
+  connectFromId: string | null;
+  onNodeClick: (room: Room) => void;
+  onEdgeClick: (from: Room, to: Room) => void;
+  onBackgroundClick: (x: number, y: number) => void;
+  onDragStart: (room: Room) => void;
+  onDrag: (room: Room, x: number, y: number) => void;
+}
+
+// Used until the blueprint has loaded and reported its real size
+const DEFAULT_SIZE = { width: 1280, height: 736 };
+
+const MapEditorCanvas = ({
+  floor,
+  rooms,
+  tool,
+  zoom,
+  selectedId,
+  connectFromId,
+  onNodeClick,
+  onEdgeClick,
+  onBackgroundClick,
+  onDragStart,
+  onDrag,
+}: MapEditorCanvasProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState(DEFAULT_SIZE);
+  const [drag, setDrag] = useState<{ room: Room; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    const image = new Image();
+    image.src = floor.blueprint;
+    image.onload = () => setSize({ width: image.width || DEFAULT_SIZE.width, height: image.height || DEFAULT_SIZE.height });
+  }, [floor.blueprint]);
+
+  const floorRooms = rooms.filter(room => room.floor === floor.level);
+  const roomsById = new Map(rooms.map(room => [room.id, room]));
+
+  // Each link once, however many sides list it
+  const edges: [Room, Room][] = [];
+  const seen = new Set<string>();
+  floorRooms.forEach(room => {
+    room.connections.forEach(id => {
+      const other = roomsById.get(id);
+      if (!other || other.floor !== floor.level) return;
+      const key = [room.id, other.id].sort().join("|");
+      if (seen.has(key)) return;
+      seen.add(key);
+      edges.push([room, other]);
+    });
+  });
+
+  // Convert a pointer position to blueprint pixels
+  const toMapPoint = (e: React.PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const mapped = point.matrixTransform(matrix.inverse());
+    return { x: Math.round(mapped.x), y: Math.round(mapped.y) };
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, room: Room) => {
+    e.stopPropagation();
+    if (tool !== "select") return;
+
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setDrag({ room, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+
+    // Only record an undo step once the node actually moves
+    if (!drag.moved) {
+      onDragStart(drag.room);
+      setDrag({ ...drag, moved: true });
+    }
+    const { x, y } = toMapPoint(e);
+    onDrag(drag.room, x, y);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent, room: Room) => {
+    e.stopPropagation();
+    const wasDragged = drag?.moved;
+    setDrag(null);
+    if (!wasDragged) onNodeClick(room);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      style={{ width: `${zoom * 100}%` }}
+      className={cn("block select-none", tool === "select" ? "cursor-default" : "cursor-crosshair")}
+      onPointerMove={handlePointerMove}
+      onClick={(e) => {
+        const { x, y } = toMapPoint(e);
+        onBackgroundClick(x, y);
+      }}
+    >
+      <image href={floor.blueprint} x={0} y={0} width={size.width} height={size.height} />
+
+      {floorRooms.filter(room => room.footprint).map(room => {
+        const color = categoryInfo[getRoomCategory(room)].color;
+        return (
+          <g key={`footprint-${room.id}`} pointerEvents="none">
+            <polygon
+              points={room.footprint.map(point => `${point.x},${point.y}`).join(" ")}
+              fill={color}
+              fillOpacity={room.id === selectedId ? 0.35 : 0.15}
+              stroke={color}
+              strokeWidth={1.5}
+            />
+            {room.doors?.map((door, i) => (
+              <circle key={i} cx={door.x} cy={door.y} r={4} fill="#ffffff" stroke={color} strokeWidth={2} />
+            ))}
+          </g>
+        );
+      })}
+
+      {edges.map(([from, to]) => (
+        <g
+          key={`${from.id}|${to.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onEdgeClick(from, to);
+          }}
+          className={tool === "delete" ? "cursor-pointer" : undefined}
+        >
+          {/* Wide invisible stroke makes thin links easy to hit */}
+          <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={12} />
+          <line
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke={tool === "delete" ? "#ef4444" : "#3b82f6"}
+            strokeOpacity={0.7}
+            strokeWidth={2.5}
+            pointerEvents="none"
+          />
+        </g>
+      ))}
+
+      {floorRooms.map(room => {
+        const isWaypoint = room.type === "waypoint";
+        const isSelected = room.id === selectedId;
+        const isConnectFrom = room.id === connectFromId;
+        const color = isWaypoint ? "#6b7280" : categoryInfo[getRoomCategory(room)].color;
+
+        return (
+          <g
+            key={room.id}
+            onPointerDown={(e) => handleNodePointerDown(e, room)}
+            onPointerUp={(e) => handlePointerUp(e, room)}
+            onClick={(e) => e.stopPropagation()}
+            className={tool === "select" ? "cursor-move" : "cursor-pointer"}
+          >
+            {(isSelected || isConnectFrom) && (
+              <circle
+                cx={room.x}
+                cy={room.y}
+                r={isWaypoint ? 10 : 14}
+                fill="none"
+                stroke={isConnectFrom ? "#f59e0b" : "#facc15"}
+                strokeWidth={3}
+              />
+            )}
+            <circle
+              cx={room.x}
+              cy={room.y}
+              r={isWaypoint ? 5 : 8}
+              fill={color}
+              stroke="#ffffff"
+              strokeWidth={1.5}
+            />
+            {!isWaypoint && room.name && (
+              <text
+                x={room.x}
+                y={room.y - 12}
+                textAnchor="middle"
+                fontSize={11}
+                fontWeight="bold"
+                fill="#111827"
+                stroke="#ffffff"
+                strokeWidth={3}
+                paintOrder="stroke"
+                pointerEvents="none"
+              >
+                {room.name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default MapEditorCanvas;
@@ -0,0 +1,287 @@
+import { Room } from "@/lib/pathfinding";
+import { MapPoint } from "@/lib/geometry";
+import { categoryInfo, getRoomCategory } from "@/lib/categories";
+import { Viewport } from "@/hooks/use-map-viewport";
+import {
+  GraphLayerScene,
+  InteractionLayerScene,
+  MarkersLayerScene,
+  RouteLayerScene,
+  RoomLabel,
+  getFloorChangeLabels,
+  getMarkerStyle,
+  getPathRuns,
+  getTrackRuns,
+  layoutHoverLabel,
+} from "@/lib/mapRenderer";
+
+interface MapSvgLayerProps {
+  viewport: Viewport;
+  blueprint: string;
+  mapSize: { width: number; height: number };
+  floorName: string;
+  graph: GraphLayerScene;
+  route: RouteLayerScene;
+  markers: MarkersLayerScene;
+  interaction: InteractionLayerScene;
+  onRoomFocus: (room: Room | null) => void;
+  onRoomActivate: (room: Room) => void;
+}
+
+const toPathData = (runs: MapPoint[][]) =>
+  runs.map(run => run.map((point, i) => `${i === 0 ? "M" : "L"}${point.x} ${point.y}`).join(" ")).join(" ");
+
+const RouteLine = ({ runs, color, width, dashOffset }: { runs: MapPoint[][]; color: string; width: number; dashOffset?: number }) => {
+  if (runs.length === 0) return null;
+  return (
+    <path
+      d={toPathData(runs)}
+      fill="none"
+      stroke={color}
+      strokeWidth={width}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeDasharray={dashOffset !== undefined ? "14 10" : undefined}
+      strokeDashoffset={dashOffset !== undefined ? -dashOffset : undefined}
+    />
+  );
+};
+
+// A label from the placement engine: a box sized for the current zoom
+const RoomLabelBox = ({ label }: { label: RoomLabel }) => (
+  <g pointerEvents="none">
+    {label.background && (
+      <rect
+        x={label.x - label.width / 2}
+        y={label.y - label.height / 2}
+        width={label.width}
+        height={label.height}
+        fill={label.background}
+      />
+    )}
+    <text
+      x={label.x}
+      y={label.y}
+      textAnchor="middle"
+      dominantBaseline="central"
+      fontFamily="Arial"
+      fontSize={label.fontSize}
+      fontWeight={label.bold ? "bold" : undefined}
+      fill={label.color}
+    >
+      {label.text}
+    </text>
+  </g>
+);
+
+// Text on a halo of `background`, standing in for the canvas label boxes
+const Label = ({ x, y, text, fontSize, color = "#000000", background }: {
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  color?: string;
+  background?: string;
+}) => (
+  <text
+    x={x}
+    y={y}
+    textAnchor="middle"
+    fontFamily="Arial"
+    fontSize={fontSize}
+    fontWeight="bold"
+    fill={color}
+    stroke={background}
+    strokeWidth={background ? 8 : undefined}
+    strokeLinejoin="round"
+    paintOrder="stroke"
+    pointerEvents="none"
+  >
+    {text}
+  </text>
+);
+
+// The map as SVG: the same scenes the canvas layers draw, with every room marker
+// a focusable element screen readers can reach
+const MapSvgLayer = ({
+  viewport,
+  blueprint,
+  mapSize,
+  floorName,
+  graph,
+  route,
+  markers,
+  interaction,
+  onRoomFocus,
+  onRoomActivate,
+}: MapSvgLayerProps) => {
+  const { path, level, navigationStep, track, walker, playbackDistance } = route;
+  const { hoveredRoom, userPosition, selectedStart, selectedDestination } = interaction;
+  const lastSegment = path.length - 1;
+
+  const isHighlighted = (room: Room) =>
+    selectedStart?.id === room.id || selectedDestination?.id === room.id || hoveredRoom?.id === room.id;
+  const isNear = (room: Room | null) =>
+    room && Math.abs(userPosition.x - room.x) < 10 && Math.abs(userPosition.y - room.y) < 10;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full" role="group" aria-label={`${floorName} map`}>
+      <g transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+        <image href={blueprint} x={0} y={0} width={mapSize.width} height={mapSize.height} />
+
+        {/* Footprints tinted by category; route ends and the hovered room stand out */}
+        {graph.rooms.filter(room => room.footprint && !graph.hidden.has(room.id)).map(room => {
+          const color = categoryInfo[getRoomCategory(room)].color;
+          const highlighted = isHighlighted(room);
+          return (
+            <g key={`footprint-${room.id}`} pointerEvents="none">
+              <polygon
+                points={room.footprint.map(point => `${point.x},${point.y}`).join(" ")}
+                fill={color}
+                fillOpacity={highlighted ? 0.35 : 0.15}
+                stroke={color}
+                strokeWidth={highlighted ? 3 : 1.5}
+              />
+              {room.doors?.map((door, i) => (
+                <circle key={i} cx={door.x} cy={door.y} r={4} fill="#ffffff" stroke={color} strokeWidth={2} />
+              ))}
+            </g>
+          );
+        })}
+
+        <g pointerEvents="none">
+          {graph.rooms.filter(room => room.type === "waypoint").map(room => (
+            <circle key={room.id} cx={room.x} cy={room.y} r={3} fill="rgba(107, 114, 128, 0.3)" />
+          ))}
+          {graph.edges
+            .filter(({ from, to }) => from.floor === level && to.floor === level)
+            .map(({ from, to }) => (
+              <line
+                key={`${from.id}|${to.id}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke="rgba(107, 114, 128, 0.15)"
+                strokeWidth={1}
+              />
+            ))}
+        </g>
+
+        {path.length > 1 && (
+          <g pointerEvents="none">
+            <RouteLine runs={getPathRuns(path, 0, lastSegment, level)} color="rgba(59, 130, 246, 0.4)" width={16} />
+            {navigationStep ? (
+              <>
+                <RouteLine runs={getPathRuns(path, navigationStep.endIndex, lastSegment, level)} color="#3b82f6" width={8} />
+                <RouteLine runs={getPathRuns(path, 0, navigationStep.startIndex, level)} color="#9ca3af" width={8} />
+                <RouteLine
+                  runs={getPathRuns(path, navigationStep.startIndex, navigationStep.endIndex, level)}
+                  color="#f59e0b"
+                  width={10}
+                />
+              </>
+            ) : walker ? (
+              <>
+                <RouteLine runs={getTrackRuns([...track.points.slice(0, walker.index + 1), walker], level)} color="#3b82f6" width={8} />
+                <RouteLine
+                  runs={getTrackRuns([walker, ...track.points.slice(walker.index + 1)], level)}
+                  color="#3b82f6"
+                  width={8}
+                  dashOffset={playbackDistance}
+                />
+              </>
+            ) : (
+              <RouteLine runs={getPathRuns(path, 0, lastSegment, level)} color="#3b82f6" width={8} />
+            )}
+          </g>
+        )}
+
+        {getFloorChangeLabels(path, level, route.floors).map(({ room, text }) => (
+          <Label key={`floor-change-${room.id}`} x={room.x} y={room.y + 32} text={text} fontSize={14} color="#ffffff" background="rgba(139, 92, 246, 0.9)" />
+        ))}
+
+        {markers.rooms.filter(room => room.type !== "waypoint" && !markers.hidden.has(room.id)).map(room => {
+          const isHovered = hoveredRoom?.id === room.id;
+          const style = getMarkerStyle(room, markers, isHovered);
+          return (
+            <g
+              key={room.id}
+              role="button"
+              tabIndex={0}
+              aria-label={style.tag ? `${room.name}, ${style.tag.text.toLowerCase()}` : room.name}
+              className="group cursor-pointer outline-none"
+              onFocus={() => onRoomFocus(room)}
+              onBlur={() => onRoomFocus(null)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onRoomActivate(room);
+                }
+              }}
+            >
+              <circle
+                cx={room.x}
+                cy={room.y}
+                r={style.radius + 5}
+                fill="none"
+                strokeWidth={3}
+                className="stroke-yellow-400 opacity-0 group-focus-visible:opacity-100"
+              />
+              <circle cx={room.x} cy={room.y} r={style.radius} fill={style.fill} fillOpacity={style.opacity} />
+              {style.centreRadius !== null ? (
+                <circle cx={room.x} cy={room.y} r={style.centreRadius} fill="#ffffff" />
+              ) : (
+                <text
+                  x={room.x}
+                  y={room.y + 0.5}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontFamily="Arial"
+                  fontSize={style.glyph.length > 1 ? 7 : 9}
+                  fontWeight="bold"
+                  fill="#ffffff"
+                >
+                  {style.glyph}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {markers.labels.map(label => (
+          <RoomLabelBox key={`${label.kind}-${label.room.id}`} label={label} />
+        ))}
+
+        {hoveredRoom?.name && hoveredRoom.floor === level && (
+          <RoomLabelBox label={layoutHoverLabel(hoveredRoom, interaction, interaction.scale)} />
+        )}
+
+        {walker && walker.floor === level && (
+          <g pointerEvents="none">
+            <circle cx={walker.x} cy={walker.y} r={18} fill="rgba(16, 185, 129, 0.3)" />
+            <circle cx={walker.x} cy={walker.y} r={11} fill="#10b981" stroke="#ffffff" strokeWidth={2} />
+            <path
+              d="M6 0 L-4 -5 L-4 5 Z"
+              fill="#ffffff"
+              transform={`translate(${walker.x} ${walker.y}) rotate(${(walker.heading * 180) / Math.PI})`}
+            />
+          </g>
+        )}
+
+        {userPosition && (
+          <g pointerEvents="none">
+            <circle cx={userPosition.x} cy={userPosition.y} r={15} fill="rgba(249, 115, 22, 0.3)" />
+            <circle cx={userPosition.x} cy={userPosition.y} r={10} fill="#f97316" />
+            <circle cx={userPosition.x} cy={userPosition.y} r={5} fill="#ffffff" />
+            {!isNear(selectedStart) && !isNear(selectedDestination) && (
+              <Label x={userPosition.x} y={userPosition.y - 20} text="You are here" fontSize={14} background="rgba(255, 255, 255, 0.8)" />
+            )}
+          </g>
+        )}
+      </g>
+    </svg>
+  );
+};
+
+export default MapSvgLayer;
@@ -1,46 +1,111 @@
 
+import { useEffect, useRef } from "react";
 import { Room } from "@/lib/pathfinding";
+import { ItineraryLeg } from "@/lib/itinerary";
+import { Instruction, Maneuver } from "@/lib/instructions";
+import { getFloor } from "@/data/floorData";
+import { buildShareUrl } from "@/lib/deepLinks";
+import {
+  WalkingPace,
+  estimateWalkingSeconds,
+  formatDistance,
+  formatDuration,
+  getRouteMetres,
+  getWalkingProfile,
+  walkingPaces
+} from "@/lib/walking";
+import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
 import { 
   MapPin, 
   Navigation, 
   CornerDownLeft, 
-  ArrowRight, 
-  ArrowLeft, 
+  CornerUpLeft,
+  CornerUpRight,
   ArrowUp, 
-  ArrowDown,
-  RotateCw,
-  User
+  ArrowUpLeft,
+  ArrowUpRight,
+  ArrowDownLeft,
+  ArrowDownRight,
+  Undo2,
+  Footprints,
+  ChevronsUp,
+  ChevronsDown,
+  Ruler,
+  User,
+  Accessibility,
+  AlertTriangle,
+  Link2,
+  Flag,
+  Clock,
+  Play,
+  Square
 } from "lucide-react";
 
 interface NavigationInfoProps {
   start: Room | null;
   destination: Room | null;
   path: Room[];
+  instructions: Instruction[]; // Turn-by-turn steps for `path`
+  stops?: Room[]; // Intermediate stops, in visiting order
+  legs?: ItineraryLeg[];
+  accessibleOnly?: boolean;
+  optimizeStops?: boolean;
+  walkingPace?: WalkingPace;
+  onWalkingPaceChange?: (pace: WalkingPace) => void;
+  activeStep?: number | null; // Step being walked in step-through mode, null otherwise
+  onStepSelect?: (step: number) => void;
+  onNavigationChange?: (navigating: boolean) => void;
   onClear: () => void;
 }
 
-// Helper function to determine direction text and icon
-const getDirectionInfo = (prev: Room, current: Room) => {
-  const dx = current.x - prev.x;
-  const dy = current.y - prev.y;
-  const angle = Math.atan2(dy, dx) * (180 / Math.PI);
-  
-  // Calculate actual distance between points (in pixels)
-  const distance = Math.sqrt(Math.pow(dx, 2) + Math.pow(dy, 2)).toFixed(0);
-  
-  // Determine cardinal direction based on angle
-  if (angle > -45 && angle <= 45) {
-    return { icon: <ArrowRight className="h-5 w-5 text-blue-600" />, text: "right", distance };
-  } else if (angle > 45 && angle <= 135) {
-    return { icon: <ArrowDown className="h-5 w-5 text-blue-600" />, text: "down", distance };
-  } else if ((angle > 135 && angle <= 180) || (angle >= -180 && angle <= -135)) {
-    return { icon: <ArrowLeft className="h-5 w-5 text-blue-600" />, text: "left", distance };
-  } else {
-    return { icon: <ArrowUp className="h-5 w-5 text-blue-600" />, text: "up", distance };
+// Icon for each kind of step, pointing the way relative to the walker
+const getManeuverIcon = (maneuver: Maneuver, className: string = "h-5 w-5") => {
+  switch (maneuver) {
+    case "depart": return <MapPin className={`${className} text-blue-600`} />;
+    case "straight": return <ArrowUp className={`${className} text-blue-600`} />;
+    case "slight-left": return <ArrowUpLeft className={`${className} text-blue-600`} />;
+    case "slight-right": return <ArrowUpRight className={`${className} text-blue-600`} />;
+    case "left": return <CornerUpLeft className={`${className} text-blue-600`} />;
+    case "right": return <CornerUpRight className={`${className} text-blue-600`} />;
+    case "sharp-left": return <ArrowDownLeft className={`${className} text-blue-600`} />;
+    case "sharp-right": return <ArrowDownRight className={`${className} text-blue-600`} />;
+    case "u-turn": return <Undo2 className={`${className} text-blue-600`} />;
+    case "steps": return <Footprints className={`${className} text-violet-600`} />;
+    case "stairs-up":
+    case "lift-up": return <ChevronsUp className={`${className} text-violet-600`} />;
+    case "stairs-down":
+    case "lift-down": return <ChevronsDown className={`${className} text-violet-600`} />;
+    case "stop": return <Flag className={`${className} text-amber-500`} />;
+    case "arrive": return <Navigation className={`${className} text-red-600`} />;
   }
 };
 
+// Short caption used under each icon in the direction strip
+const maneuverCaptions: Record<Maneuver, string> = {
+  depart: "start",
+  straight: "ahead",
+  "slight-left": "bear left",
+  "slight-right": "bear right",
+  left: "left",
+  right: "right",
+  "sharp-left": "sharp left",
+  "sharp-right": "sharp right",
+  "u-turn": "turn back",
+  steps: "steps",
+  "stairs-up": "stairs up",
+  "stairs-down": "stairs down",
+  "lift-up": "lift up",
+  "lift-down": "lift down",
+  stop: "stop",
+  arrive: "arrive",
+};
+
+const isFloorChange = (maneuver: Maneuver) => {
+  return maneuver === "stairs-up" || maneuver === "stairs-down" || maneuver === "lift-up" || maneuver === "lift-down";
+};
+
 // Helper to get room display name
 const getRoomDisplayName = (room: Room) => {
   if (!room.name || room.name.trim() === "") {
@@ -53,8 +118,25 @@ const NavigationInfo = ({
   start,
   destination,
   path,
+  instructions,
+  stops = [],
+  legs = [],
+  accessibleOnly = false,
+  optimizeStops = false,
+  walkingPace = "average",
+  onWalkingPaceChange,
+  activeStep = null,
+  onStepSelect,
+  onNavigationChange,
   onClear
 }: NavigationInfoProps) => {
+  const activeStepRef = useRef<HTMLLIElement>(null);
+  
+  // Keep the step being walked visible in the list
+  useEffect(() => {
+    activeStepRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeStep]);
+  
   if (!start && !destination) {
     return (
       <div className="p-4 mt-4 bg-blue-50 text-blue-800 rounded-md">
@@ -63,8 +145,25 @@ const NavigationInfo = ({
     );
   }
 
+  const walkingProfile = getWalkingProfile(walkingPace);
+  const estimateTime = (route: Room[]) => {
+    return formatDuration(estimateWalkingSeconds(route, accessibleOnly, walkingProfile));
+  };
+
+  const copyLink = async () => {
+    const url = buildShareUrl(start, destination, accessibleOnly, stops, optimizeStops);
+    
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied", { description: url });
+    } catch {
+      // Clipboard access can be blocked (e.g. insecure origin); show the link instead
+      toast("Copy this link", { description: url });
+    }
+  };
+
   const renderPathInstructions = () => {
-    if (!start || !destination || path.length < 2) {
+    if (!start || !destination || instructions.length === 0) {
       return (
         <p className="text-gray-500 italic">
           Path information will appear here
@@ -72,74 +171,85 @@ const NavigationInfo = ({
       );
     }
     
-    let stepNumber = 1;
-    const steps = [];
-    
-    // First step - start location
-    steps.push(
-      <li key="start" className="text-sm py-2 border-b border-gray-100">
-        <div className="flex items-start gap-2">
-          <div className="mt-0.5 flex-shrink-0">
-            <MapPin className="h-5 w-5 text-blue-600" />
-          </div>
-          <div>
-            <div className="font-medium">From: <span className="text-blue-700">{getRoomDisplayName(start)}</span></div>
-          </div>
-        </div>
-      </li>
-    );
+    const navigating = activeStep !== null;
     
-    // Generate movement instructions
-    for (let i = 1; i < path.length; i++) {
-      const prev = path[i - 1];
-      const current = path[i];
-      const direction = getDirectionInfo(prev, current);
-      const isNamedLocation = current.name && current.name.trim() !== "";
-      const isDestination = i === path.length - 1;
-      
-      if (isNamedLocation || isDestination) {
-        steps.push(
-          <li key={`step-${stepNumber}`} className="text-sm py-2 border-b border-gray-100">
-            <div className="flex items-start gap-2">
-              <div className="bg-gray-100 rounded-full w-6 h-6 flex items-center justify-center text-xs font-medium text-gray-700 flex-shrink-0 mt-0.5">
-                {stepNumber}
-              </div>
-              <div>
-                <div className="font-medium">Go to <span className="text-blue-700">{getRoomDisplayName(current)}</span></div>
-              </div>
-            </div>
-          </li>
-        );
-        stepNumber++;
-      } else {
-        steps.push(
-          <li key={`direction-${i}`} className="text-sm py-2 border-b border-gray-100">
-            <div className="flex items-start gap-2">
-              <div className="mt-0.5 flex-shrink-0">
-                {direction.icon}
-              </div>
-              <div>
-                <div className="font-medium">Continue <span className="text-blue-700">{direction.text}</span> for <span className="text-blue-700">{direction.distance}</span> units</div>
+    return (
+      <ol className="space-y-1">
+        {instructions.map((instruction, index) => {
+          const isActive = activeStep === index;
+          const stepProps = {
+            ref: isActive ? activeStepRef : undefined,
+            onClick: navigating && onStepSelect ? () => onStepSelect(index) : undefined,
+            "aria-current": isActive ? ("step" as const) : undefined,
+          };
+          const stepState = cn(
+            navigating && "cursor-pointer",
+            navigating && index < activeStep && "opacity-50",
+            isActive && "bg-amber-50 rounded-md px-2 ring-2 ring-amber-400"
+          );
+          
+          if (instruction.maneuver === "arrive") {
+            return (
+              <li key={index} {...stepProps} className={cn("text-sm py-2 flex items-center gap-2 text-green-600 font-medium", stepState)}>
+                <Navigation className="h-5 w-5" />
+                <span>{instruction.text}!</span>
+              </li>
+            );
+          }
+          
+          const tone = instruction.maneuver === "stop"
+            ? "text-amber-700"
+            : isFloorChange(instruction.maneuver) || instruction.maneuver === "steps"
+              ? "text-violet-700"
+              : "";
+          
+          return (
+            <li key={index} {...stepProps} className={cn("text-sm py-2 border-b border-gray-100", stepState)}>
+              <div className="flex items-start gap-2">
+                <div className="mt-0.5 flex-shrink-0">
+                  {getManeuverIcon(instruction.maneuver)}
+                </div>
+                <div className={cn("font-medium", tone)}>{instruction.text}</div>
               </div>
-            </div>
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  const renderLegBreakdown = () => {
+    return (
+      <ol className="space-y-1">
+        {legs.map((leg, index) => (
+          <li
+            key={`${leg.from.id}-${leg.to.id}`}
+            className="flex items-center justify-between gap-2 text-sm py-1 border-b border-gray-100"
+          >
+            <span className="truncate">
+              <span className="text-gray-500 mr-1">{index + 1}.</span>
+              {getRoomDisplayName(leg.from)} → <span className="text-blue-700">{getRoomDisplayName(leg.to)}</span>
+            </span>
+            {leg.path.length > 1 ? (
+              <span className="text-xs text-gray-500 flex-shrink-0">
+                {formatDistance(leg.distance)} · {estimateTime(leg.path)}
+              </span>
+            ) : (
+              <span className="text-xs text-red-600 flex-shrink-0">No route</span>
+            )}
           </li>
-        );
-      }
-    }
-    
-    // Final arrival step
-    steps.push(
-      <li key="arrival" className="text-sm py-2 flex items-center gap-2 text-green-600 font-medium">
-        <Navigation className="h-5 w-5" />
-        <span>You have arrived at your destination!</span>
-      </li>
+        ))}
+      </ol>
     );
-    
-    return <ol className="space-y-1">{steps}</ol>;
   };
 
+  // The leg that stopped a multi-stop trip from being drawn, if any
+  const failedLeg = legs.find(leg => leg.path.length < 2);
+  const blockedFrom = failedLeg?.from ?? start;
+  const blockedTo = failedLeg?.to ?? destination;
+
   const renderDirectionStrip = () => {
-    if (!start || !destination || path.length < 2) return null;
+    if (!start || !destination || instructions.length === 0) return null;
     
     return (
       <div className="flex overflow-x-auto py-3 px-1 gap-1 bg-gray-50 rounded-md mt-4 scrollbar-thin">
@@ -149,44 +259,35 @@ const NavigationInfo = ({
           <div className="text-xs font-medium">You</div>
         </div>
         
-        {/* Direction arrows */}
-        {path.map((point, index) => {
-          if (index === 0) return null; // Skip first point (starting point)
+        {/* One icon per step, skipping the departure the "You" marker already shows */}
+        {instructions.map((instruction, index) => {
+          if (instruction.maneuver === "depart" && index === 0) return null;
           
-          const prev = path[index - 1];
-          const direction = getDirectionInfo(prev, point);
-          const isDestination = index === path.length - 1;
-          const displayName = point.name && point.name.trim() !== "" ? point.name : null;
+          const isDestination = instruction.maneuver === "arrive";
+          const floorChange = isFloorChange(instruction.maneuver);
+          const caption = floorChange
+            ? getFloor(instruction.target.floor, instruction.target.building).name
+            : instruction.target?.name ?? maneuverCaptions[instruction.maneuver];
           
           return (
-            <div key={`direction-${index}`} className="flex-shrink-0 flex flex-col items-center">
+            <div key={index} className="flex-shrink-0 flex flex-col items-center">
               {/* Connecting line */}
-              <div className="h-px w-8 bg-blue-400 self-center mt-3"></div>
+              <div className={`h-px w-8 self-center mt-3 ${floorChange ? 'bg-violet-400' : 'bg-blue-400'}`}></div>
               
               {/* Direction icon */}
-              <div className={`rounded-full p-1.5 ${isDestination ? 'bg-red-100' : 'bg-blue-100'}`}>
-                {isDestination ? (
-                  <Navigation className="h-4 w-4 text-red-600" />
-                ) : (
-                  direction.icon
-                )}
+              <div className={`rounded-full p-1.5 ${isDestination ? 'bg-red-100' : floorChange ? 'bg-violet-100' : 'bg-blue-100'}`}>
+                {getManeuverIcon(instruction.maneuver, "h-4 w-4")}
               </div>
               
               {/* Direction label */}
-              {displayName ? (
-                <div className="text-[10px] w-16 text-center truncate" title={displayName}>
-                  {displayName}
-                </div>
-              ) : (
-                <div className="text-[10px] w-12 text-center">
-                  {direction.text}
-                </div>
-              )}
+              <div className="text-[10px] w-16 text-center truncate" title={caption}>
+                {caption}
+              </div>
               
-              {/* Distance for non-destinations */}
-              {!isDestination && (
+              {/* Distance for walked steps */}
+              {instruction.distance > 0 && (
                 <div className="text-[10px] text-gray-500">
-                  {direction.distance}u
+                  {formatDistance(instruction.distance)}
                 </div>
               )}
             </div>
@@ -218,14 +319,79 @@ const NavigationInfo = ({
           </div>
         )}
 
+        {stops.length > 0 && (
+          <div className="flex items-start gap-2">
+            <Flag className="h-4 w-4 text-amber-500 mt-0.5" />
+            <span className="text-sm">
+              Via: <strong>{stops.map(getRoomDisplayName).join(", ")}</strong>
+            </span>
+          </div>
+        )}
+
+        {path.length > 1 && (
+          <div className="flex items-center gap-2 text-sm">
+            <Ruler className="h-4 w-4 text-gray-600" />
+            <span>Total distance: <strong>{formatDistance(getRouteMetres(path))}</strong></span>
+          </div>
+        )}
+        
         {path.length > 1 && (
           <div className="flex items-center gap-2 text-sm">
-            <RotateCw className="h-4 w-4 text-gray-600" />
-            <span>Total waypoints: <strong>{path.length}</strong></span>
+            <Clock className="h-4 w-4 text-gray-600" />
+            <span>About <strong>{estimateTime(path)}</strong> on foot</span>
+          </div>
+        )}
+        
+        {/* Walking pace used for the time estimates; step-free routes use a slower fixed pace */}
+        {path.length > 1 && onWalkingPaceChange && !accessibleOnly && (
+          <div className="flex items-center gap-1 text-xs pt-1">
+            <span className="text-gray-600 mr-1">Pace:</span>
+            {(Object.keys(walkingPaces) as WalkingPace[]).map(pace => (
+              <button
+                key={pace}
+                onClick={() => onWalkingPaceChange(pace)}
+                aria-pressed={walkingPace === pace}
+                className={cn(
+                  "rounded-full border px-2 py-0.5",
+                  walkingPace === pace
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "border-blue-200 text-blue-800 hover:bg-blue-100"
+                )}
+              >
+                {walkingPaces[pace].label}
+              </button>
+            ))}
+          </div>
+        )}
+        
+        {path.length > 1 && accessibleOnly && (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <Accessibility className="h-4 w-4" />
+            <span>Step-free route</span>
           </div>
         )}
       </div>
       
+      {/* Explain why no route was drawn */}
+      {start && destination && start.id !== destination.id && path.length < 2 && (
+        <div className="flex items-start gap-2 bg-red-50 text-red-800 p-3 rounded-md text-sm">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+          <span>
+            {accessibleOnly
+              ? <>No step-free route exists between <strong>{getRoomDisplayName(blockedFrom)}</strong> and <strong>{getRoomDisplayName(blockedTo)}</strong>. Turn off the accessible route option to see a route that uses stairs.</>
+              : <>No route could be found between <strong>{getRoomDisplayName(blockedFrom)}</strong> and <strong>{getRoomDisplayName(blockedTo)}</strong>.</>}
+          </span>
+        </div>
+      )}
+      
+      {/* Per-leg breakdown for multi-stop trips */}
+      {legs.length > 1 && (
+        <div>
+          <h3 className="font-medium mb-2">Legs:</h3>
+          {renderLegBreakdown()}
+        </div>
+      )}
+      
       {/* Simplified direction strip with arrows */}
       {path.length > 1 && renderDirectionStrip()}
       
@@ -237,14 +403,36 @@ const NavigationInfo = ({
         </div>
       )}
       
-      <Button 
-        variant="outline" 
-        size="sm" 
-        onClick={onClear}
-        className="w-full mt-2"
-      >
-        Clear Navigation
-      </Button>
+      {instructions.length > 0 && onNavigationChange && (
+        <Button
+          size="sm"
+          onClick={() => onNavigationChange(activeStep === null)}
+          className="w-full"
+        >
+          {activeStep === null ? <Play className="h-4 w-4" /> : <Square className="h-4 w-4" />}
+          {activeStep === null ? "Start navigation" : "Exit navigation"}
+        </Button>
+      )}
+      
+      <div className="flex gap-2 mt-2">
+        <Button 
+          variant="outline" 
+          size="sm" 
+          onClick={copyLink}
+          className="flex-1"
+        >
+          <Link2 className="h-4 w-4" />
+          Copy link
+        </Button>
+        <Button 
+          variant="outline" 
+          size="sm" 
+          onClick={onClear}
+          className="flex-1"
+        >
+          Clear Navigation
+        </Button>
+      </div>
     </div>
   );
 };
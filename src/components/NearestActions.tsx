@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { NearestResult, Room, findNearest } from "@/lib/pathfinding";
+import { CampusGraph } from "@/lib/graph";
+import { NearestQuery, nearestQueries } from "@/lib/nearest";
+import { formatDistance, getRouteMetres } from "@/lib/walking";
+import { cn } from "@/lib/utils";
+
+interface NearestActionsProps {
+  graph: CampusGraph;
+  start: Room | null;
+  accessibleOnly: boolean;
+  onRouteTo: (room: Room) => void;
+}
+
+const NearestActions = ({ graph, start, accessibleOnly, onRouteTo }: NearestActionsProps) => {
+  const [query, setQuery] = useState<NearestQuery | null>(null);
+  const [results, setResults] = useState<NearestResult[]>([]);
+
+  // Searching from a different start makes the old answers meaningless
+  const [lastStart, setLastStart] = useState(start);
+  if (start !== lastStart) {
+    setLastStart(start);
+    setQuery(null);
+    setResults([]);
+  }
+
+  const handleQuery = (key: NearestQuery) => {
+    if (!start) return;
+
+    const found = findNearest(start, graph, nearestQueries[key].matches, 3, { accessible: accessibleOnly });
+    setQuery(key);
+    setResults(found);
+
+    // Route straight to the winner; the rest stay listed as alternatives
+    if (found.length > 0) {
+      onRouteTo(found[0].room);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-medium">Find nearest</h2>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {(Object.keys(nearestQueries) as NearestQuery[]).map(key => {
+          const info = nearestQueries[key];
+          const Icon = info.icon;
+
+          return (
+            <button
+              key={key}
+              onClick={() => handleQuery(key)}
+              disabled={!start}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md border px-2 py-1.5 text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                query === key
+                  ? "bg-blue-600 border-blue-500 text-white"
+                  : "border-gray-500 text-gray-200 hover:bg-gray-600"
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {info.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {!start && (
+        <p className="text-xs text-gray-400">Set a starting point to search around it.</p>
+      )}
+
+      {start && query && results.length === 0 && (
+        <p className="text-xs text-amber-300">
+          No reachable {nearestQueries[query].label.toLowerCase()} from {start.name}
+          {accessibleOnly && " on a step-free route"}.
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <ol className="space-y-1 text-sm">
+          {results.map((result, index) => (
+            <li key={result.room.id}>
+              <button
+                onClick={() => onRouteTo(result.room)}
+                className="w-full flex justify-between items-center rounded px-2 py-1 text-left hover:bg-gray-600"
+              >
+                <span className={index === 0 ? "font-medium" : "text-gray-300"}>
+                  {index + 1}. {result.room.name}
+                </span>
+                <span className="text-xs text-gray-400">{formatDistance(getRouteMetres(result.path))}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default NearestActions;
@@ -0,0 +1,207 @@
+import { Room } from "@/lib/pathfinding";
+import { RoomCategory, categoryInfo, legendCategories } from "@/lib/categories";
+import { Floor } from "@/data/floorData";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, X } from "lucide-react";
+
+interface RoomInspectorProps {
+  room: Room;
+  rooms: Room[];
+  floors: Floor[];
+  onChange: (changes: Partial<Room>) => void;
+  onRename: (id: string) => void;
+  onDisconnect: (otherId: string) => void;
+  onSelect: (id: string) => void;
+  onDelete: () => void;
+}
+
+const roomTypes: Room["type"][] = ["room", "waypoint", "entrance", "stairs", "lift"];
+
+// Placeholder value for "infer from type", since Select items cannot be empty
+const AUTO_CATEGORY = "auto";
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="block space-y-1">
+    <span className="text-xs text-gray-400">{label}</span>
+    {children}
+  </label>
+);
+
+const RoomInspector = ({ room, rooms, floors, onChange, onRename, onDisconnect, onSelect, onDelete }: RoomInspectorProps) => {
+  // Links may be stored on either side, so look both ways
+  const neighbours = rooms.filter(other =>
+    other.id !== room.id && (room.connections.includes(other.id) || other.connections.includes(room.id))
+  );
+
+  // Text fields commit on blur/Enter so each edit is a single undo step.
+  // Keying on the stored value resets them after undo/redo.
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  const inputClass = "h-8 bg-gray-800 border-gray-600 text-white";
+
+  return (
+    <div className="space-y-3">
+      <Field label="Id">
+        <Input
+          key={`id-${room.id}`}
+          defaultValue={room.id}
+          className={inputClass}
+          onKeyDown={commitOnEnter}
+          onBlur={(e) => {
+            const id = e.target.value.trim();
+            if (id !== room.id) onRename(id);
+            e.target.value = room.id;
+          }}
+        />
+      </Field>
+
+      <Field label="Name">
+        <Input
+          key={`name-${room.id}-${room.name}`}
+          defaultValue={room.name}
+          className={inputClass}
+          onKeyDown={commitOnEnter}
+          onBlur={(e) => {
+            if (e.target.value !== room.name) onChange({ name: e.target.value });
+          }}
+        />
+      </Field>
+
+      <Field label="Aliases (comma separated)">
+        <Input
+          key={`aliases-${room.id}-${room.aliases?.join(",")}`}
+          defaultValue={room.aliases?.join(", ") ?? ""}
+          className={inputClass}
+          onKeyDown={commitOnEnter}
+          onBlur={(e) => {
+            const aliases = e.target.value.split(",").map(alias => alias.trim()).filter(Boolean);
+            if (aliases.join(",") !== (room.aliases ?? []).join(",")) {
+              onChange({ aliases: aliases.length > 0 ? aliases : undefined });
+            }
+          }}
+        />
+      </Field>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Type">
+          <Select value={room.type} onValueChange={(type) => onChange({ type: type as Room["type"] })}>
+            <SelectTrigger className={inputClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roomTypes.map(type => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        <Field label="Category">
+          <Select
+            value={room.category ?? AUTO_CATEGORY}
+            onValueChange={(value) =>
+              onChange({ category: value === AUTO_CATEGORY ? undefined : (value as RoomCategory) })
+            }
+          >
+            <SelectTrigger className={inputClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_CATEGORY}>From type</SelectItem>
+              {legendCategories.map(category => (
+                <SelectItem key={category} value={category}>{categoryInfo[category].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        <Field label="X">
+          <Input
+            key={`x-${room.id}-${room.x}`}
+            type="number"
+            defaultValue={room.x}
+            className={inputClass}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const x = Number(e.target.value);
+              if (Number.isFinite(x) && x !== room.x) onChange({ x });
+            }}
+          />
+        </Field>
+
+        <Field label="Y">
+          <Input
+            key={`y-${room.id}-${room.y}`}
+            type="number"
+            defaultValue={room.y}
+            className={inputClass}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const y = Number(e.target.value);
+              if (Number.isFinite(y) && y !== room.y) onChange({ y });
+            }}
+          />
+        </Field>
+      </div>
+
+      <Field label="Floor">
+        <Select value={String(room.floor)} onValueChange={(level) => onChange({ floor: Number(level) })}>
+          <SelectTrigger className={inputClass}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {floors.map(floor => (
+              <SelectItem key={floor.level} value={String(floor.level)}>{floor.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Field>
+
+      <div>
+        <span className="text-xs text-gray-400">Connections</span>
+        {neighbours.length === 0 ? (
+          <p className="text-sm text-gray-400">Not linked to anything yet.</p>
+        ) : (
+          <ul className="mt-1 space-y-1">
+            {neighbours.map(other => (
+              <li key={other.id} className="flex items-center justify-between gap-2 text-sm">
+                <button
+                  type="button"
+                  className="truncate text-left text-blue-300 hover:text-blue-200"
+                  onClick={() => onSelect(other.id)}
+                >
+                  {other.name || other.id}
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-400"
+                  onClick={() => onDisconnect(other.id)}
+                  aria-label={`Remove link to ${other.name || other.id}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Button variant="destructive" size="sm" className="w-full" onClick={onDelete}>
+        <Trash2 className="h-4 w-4" />
+        Delete {room.type === "waypoint" ? "waypoint" : "room"}
+      </Button>
+    </div>
+  );
+};
+
+export default RoomInspector;
@@ -1,6 +1,8 @@
 
-import { useState } from "react";
 import { Room } from "@/lib/pathfinding";
+import { CampusGraph } from "@/lib/graph";
+import { getSearchableRooms } from "@/lib/search";
+import { categoryInfo, getRoomCategory } from "@/lib/categories";
 import { 
   Select, 
   SelectContent, 
@@ -9,20 +11,46 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { MapPin, Navigation } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Accessibility, MapPin, Navigation, Search } from "lucide-react";
 
 interface SearchBarProps {
-  rooms: Room[];
+  graph: CampusGraph;
+  selectedStart: Room | null;
+  selectedDestination: Room | null;
   onSelectStart: (room: Room) => void;
   onSelectDestination: (room: Room) => void;
+  accessibleOnly: boolean;
+  onAccessibleOnlyChange: (accessibleOnly: boolean) => void;
+  onOpenSearch: () => void;
 }
 
-const SearchBar = ({ rooms, onSelectStart, onSelectDestination }: SearchBarProps) => {
-  const [startRoomId, setStartRoomId] = useState<string>("");
-  const [destinationRoomId, setDestinationRoomId] = useState<string>("");
+const SearchBar = ({
+  graph,
+  selectedStart,
+  selectedDestination,
+  onSelectStart,
+  onSelectDestination,
+  accessibleOnly,
+  onAccessibleOnlyChange,
+  onOpenSearch,
+}: SearchBarProps) => {
+  // Only offer named places that are actually wired into the graph
+  const rooms = getSearchableRooms(graph);
+  
+  const renderRoomOption = (room: Room) => {
+    const category = categoryInfo[getRoomCategory(room)];
+    const Icon = category.icon;
+    
+    return (
+      <span className="flex items-center gap-2">
+        <Icon className="h-4 w-4 flex-shrink-0" style={{ color: category.color }} />
+        {room.name}
+      </span>
+    );
+  };
   
   const handleStartSelect = (value: string) => {
-    setStartRoomId(value);
     const room = rooms.find(r => r.id === value);
     if (room) {
       onSelectStart(room);
@@ -30,7 +58,6 @@ const SearchBar = ({ rooms, onSelectStart, onSelectDestination }: SearchBarProps
   };
   
   const handleDestinationSelect = (value: string) => {
-    setDestinationRoomId(value);
     const room = rooms.find(r => r.id === value);
     if (room) {
       onSelectDestination(room);
@@ -39,19 +66,29 @@ const SearchBar = ({ rooms, onSelectStart, onSelectDestination }: SearchBarProps
   
   return (
     <div className="space-y-4">
+      <Button
+        variant="outline"
+        onClick={onOpenSearch}
+        className="w-full justify-start bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white"
+      >
+        <Search className="h-4 w-4" />
+        <span className="flex-1 text-left">Search places…</span>
+        <kbd className="text-[10px] rounded border border-gray-500 px-1.5 py-0.5">Ctrl K</kbd>
+      </Button>
+      
       <div className="space-y-2">
         <label className="text-sm font-medium flex items-center gap-1 text-gray-200">
           <MapPin className="h-4 w-4 text-blue-400" />
           Starting Point
         </label>
-        <Select value={startRoomId} onValueChange={handleStartSelect}>
+        <Select value={selectedStart?.id ?? ""} onValueChange={handleStartSelect}>
           <SelectTrigger className="bg-gray-700 border-gray-600">
             <SelectValue placeholder="Select starting point" />
           </SelectTrigger>
           <SelectContent>
-            {rooms.sort((a, b) => a.name.localeCompare(b.name)).map((room) => (
+            {rooms.map((room) => (
               <SelectItem key={room.id} value={room.id}>
-                {room.name}
+                {renderRoomOption(room)}
               </SelectItem>
             ))}
           </SelectContent>
@@ -63,19 +100,34 @@ const SearchBar = ({ rooms, onSelectStart, onSelectDestination }: SearchBarProps
           <Navigation className="h-4 w-4 text-red-400" />
           Destination
         </label>
-        <Select value={destinationRoomId} onValueChange={handleDestinationSelect}>
+        <Select value={selectedDestination?.id ?? ""} onValueChange={handleDestinationSelect}>
           <SelectTrigger className="bg-gray-700 border-gray-600">
             <SelectValue placeholder="Select destination" />
           </SelectTrigger>
           <SelectContent>
-            {rooms.sort((a, b) => a.name.localeCompare(b.name)).map((room) => (
+            {rooms.map((room) => (
               <SelectItem key={room.id} value={room.id}>
-                {room.name}
+                {renderRoomOption(room)}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
       </div>
+      
+      <div className="flex items-center justify-between gap-2">
+        <label
+          htmlFor="accessible-route"
+          className="text-sm font-medium flex items-center gap-1 text-gray-200"
+        >
+          <Accessibility className="h-4 w-4 text-green-400" />
+          Accessible route (avoid stairs)
+        </label>
+        <Switch
+          id="accessible-route"
+          checked={accessibleOnly}
+          onCheckedChange={onAccessibleOnlyChange}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from "react";
+import { Instruction } from "@/lib/instructions";
+import { useSpeechSynthesis } from "@/hooks/use-speech-synthesis";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, RotateCcw, Settings2, Square, Volume2 } from "lucide-react";
+
+interface VoiceGuidanceProps {
+  instructions: Instruction[];
+  step: number; // Index into `instructions` currently being guided
+  onStepChange: (step: number) => void;
+}
+
+// Spell out units so voices say "12 metres" rather than "12 m"
+const toSpokenText = (text: string): string => {
+  return text
+    .replace(/(\d) km\b/g, "$1 kilometres")
+    .replace(/(\d) m\b/g, "$1 metres")
+    .replace(/\b1 metres\b/g, "1 metre");
+};
+
+// Focused controls keep their keys: native buttons and role="button" elements
+// such as the map markers, the speed slider and the voice list
+const keyedWidgetSelector = 'button, [role="slider"], [role="button"], [role="option"], [role="listbox"], [role="combobox"]';
+
+const handlesKeysItself = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element?.tagName) return false;
+  return (
+    ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) ||
+    element.isContentEditable ||
+    element.closest(keyedWidgetSelector) !== null
+  );
+};
+
+const VoiceGuidance = ({ instructions, step, onStepChange }: VoiceGuidanceProps) => {
+  const { supported, voices, speak, cancel } = useSpeechSynthesis();
+  const [active, setActive] = useState(false);
+  const [voiceUri, setVoiceUri] = useState<string | null>(null);
+  const [rate, setRate] = useState(1);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // On-device voices keep working offline, so list them first
+  const sortedVoices = [...voices].sort((a, b) => Number(b.localService) - Number(a.localService));
+  const language = typeof navigator !== "undefined" ? navigator.language.split("-")[0] : "en";
+  const defaultVoice =
+    sortedVoices.find(v => v.localService && v.lang.startsWith(language)) ?? sortedVoices[0] ?? null;
+  const voice = voices.find(v => v.voiceURI === voiceUri) ?? defaultVoice;
+
+  // Voice and speed changes apply from the next instruction rather than interrupting this one
+  const settings = useRef({ voice, rate });
+  settings.current = { voice, rate };
+
+  const current = instructions[step];
+  const isLastStep = step >= instructions.length - 1;
+
+  // Read the current step aloud whenever it changes while guiding
+  useEffect(() => {
+    if (active && current) {
+      speak(toSpokenText(current.text), settings.current);
+    }
+  }, [active, current, speak]);
+
+  const start = () => {
+    setActive(true);
+  };
+
+  const stop = () => {
+    setActive(false);
+    cancel();
+  };
+
+  const next = () => {
+    if (!isLastStep) onStepChange(step + 1);
+  };
+
+  const previous = () => {
+    if (step > 0) onStepChange(step - 1);
+  };
+
+  const repeat = () => {
+    if (current) speak(toSpokenText(current.text), { voice, rate });
+  };
+
+  // Keyboard shortcuts: V toggles guidance, arrows / N / P move between steps, R repeats
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || handlesKeysItself(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === "v") {
+        e.preventDefault();
+        if (active) stop();
+        else start();
+        return;
+      }
+      if (!active) return;
+
+      if (key === "arrowright" || key === "n") {
+        e.preventDefault();
+        next();
+      } else if (key === "arrowleft" || key === "p") {
+        e.preventDefault();
+        previous();
+      } else if (key === "r") {
+        e.preventDefault();
+        repeat();
+      } else if (key === "escape") {
+        stop();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  if (!supported) {
+    return (
+      <p className="text-xs text-gray-400">
+        Voice guidance is not available in this browser.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium flex items-center gap-1">
+          <Volume2 className="h-4 w-4" />
+          Voice guidance
+        </h2>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className="p-1 rounded hover:bg-gray-600"
+          aria-label="Voice settings"
+          aria-expanded={showSettings}
+        >
+          <Settings2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="space-y-3 rounded-md bg-gray-800/60 p-3">
+          <div className="space-y-1">
+            <label className="text-xs text-gray-300">Voice</label>
+            <Select value={voice?.voiceURI ?? ""} onValueChange={setVoiceUri}>
+              <SelectTrigger className="w-full bg-gray-700 border-gray-600 text-gray-200">
+                <SelectValue placeholder="Browser default" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedVoices.map(v => (
+                  <SelectItem key={v.voiceURI} value={v.voiceURI}>
+                    {v.name} ({v.lang}){!v.localService && " · needs internet"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-gray-300 flex justify-between">
+              <span>Speed</span>
+              <span>{rate.toFixed(1)}×</span>
+            </label>
+            <Slider
+              min={0.5}
+              max={2}
+              step={0.1}
+              value={[rate]}
+              onValueChange={([value]) => setRate(value)}
+              aria-label="Speech rate"
+            />
+          </div>
+        </div>
+      )}
+
+      {active && current ? (
+        <>
+          <div className="rounded-md bg-blue-50 p-3 text-sm text-blue-900" aria-live="polite">
+            <div className="text-xs text-blue-700 mb-1">
+              Step {step + 1} of {instructions.length}
+            </div>
+            {current.text}
+          </div>
+
+          <div className="grid grid-cols-4 gap-1.5">
+            <Button variant="outline" size="sm" onClick={previous} disabled={step === 0} aria-label="Previous step">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={repeat} aria-label="Repeat step">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={next} disabled={isLastStep} aria-label="Next step">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={stop} aria-label="Stop guidance">
+              <Square className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button variant="outline" size="sm" onClick={start} className="w-full">
+          <Volume2 className="h-4 w-4" />
+          Start voice guidance
+        </Button>
+      )}
+
+      <p className="text-xs text-gray-400">
+        Keys: V start/stop · ← → or P/N previous/next · R repeat
+      </p>
+    </div>
+  );
+};
+
+export default VoiceGuidance;
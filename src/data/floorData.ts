@@ -0,0 +1,78 @@
+import { ControlPoint } from "@/lib/georeference";
+
+// Two blueprint points a known distance apart, e.g. both ends of a straight corridor
+export interface ScaleCalibration {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  metres: number; // The same distance measured on site
+}
+
+export interface Floor {
+  level: number; // Matches Room.floor
+  name: string;
+  building: string;
+  blueprint: string; // Path of the blueprint image served from /public
+  scale: ScaleCalibration;
+}
+
+export interface Building {
+  id: string;
+  name: string;
+}
+
+export const MAIN_BLOCK = "main-block";
+
+export const buildings: Building[] = [{ id: MAIN_BLOCK, name: "Main Block" }];
+
+// One blueprint per floor. Levels without a scanned drawing yet use the
+// placeholder so the floor can still be selected and routed through.
+export const floors: Floor[] = [
+  {
+    level: 1,
+    name: "Level 1",
+    building: MAIN_BLOCK,
+    blueprint: "/lovable-uploads/869cfbb7-7043-4b0b-97be-49875acf0122.png",
+    // Main corridor, from the junction by the seminar hall (w1) to the far end (w4).
+    // Estimated, not measured: 60 m has no survey behind it. Measure on site and
+    // replace it, since every distance and walking time shown is derived from it.
+    scale: { from: { x: 300, y: 450 }, to: { x: 1050, y: 450 }, metres: 60 },
+  },
+  {
+    level: 2,
+    name: "Level 2",
+    building: MAIN_BLOCK,
+    blueprint: "/placeholder.svg",
+    // Not measured yet; the upper floor shares the ground floor footprint
+    scale: { from: { x: 300, y: 450 }, to: { x: 1050, y: 450 }, metres: 60 },
+  },
+];
+
+// Swap in the floors from a map file loaded at runtime. Updated in place so
+// helpers such as getFloor see them without being handed the list.
+export const replaceFloors = (next: Floor[]) => {
+  floors.splice(0, floors.length, ...next);
+};
+
+// Blueprint pixels pinned to longitude/latitude for GeoJSON export. Every floor
+// shares the same drawing frame, so one set covers the whole block.
+// Approximate, read off satellite imagery; replace with surveyed points.
+export const campusGeoreference: ControlPoint[] = [
+  { pixel: { x: 0, y: 0 }, lngLat: [77.078, 11.08] },
+  { pixel: { x: 1280, y: 0 }, lngLat: [77.078937, 11.08] },
+  { pixel: { x: 0, y: 736 }, lngLat: [77.078, 11.079471] },
+];
+
+// Find the floor definition for a level, falling back to the ground floor
+export const getFloor = (level: number, building: string = MAIN_BLOCK): Floor => {
+  return (
+    floors.find(f => f.level === level && f.building === building) ??
+    floors.find(f => f.level === level) ??
+    floors[0]
+  );
+};
+
+// Blueprint pixels per real-world metre, derived from the floor's calibration
+export const getPixelsPerMetre = (floor: Floor): number => {
+  const { from, to, metres } = floor.scale;
+  return Math.sqrt(Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2)) / metres;
+};
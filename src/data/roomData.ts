@@ -1,10 +1,19 @@
 
 import { Room } from "@/lib/pathfinding";
+import { CampusGraph, GraphBuildOptions, buildGraph } from "@/lib/graph";
+import { MAIN_BLOCK } from "@/data/floorData";
+
+// Rooms are declared per floor; the floor and building are stamped on afterwards
+type RoomDefinition = Omit<Room, "floor" | "building">;
+
+const placeOnFloor = (building: string, floor: number, rooms: RoomDefinition[]): Room[] => {
+  return rooms.map(room => ({ ...room, floor, building }));
+};
 
 // Define main waypoints for navigation
 const createCorridorNetwork = () => {
   // Create main corridor waypoints for the navigation network
-  const mainCorridors: Room[] = [
+  const mainCorridors: RoomDefinition[] = [
     // Central corridor - main horizontal corridor
     {
       id: "central-corridor",
@@ -82,14 +91,15 @@ const createCorridorNetwork = () => {
   return mainCorridors;
 };
 
-// Create all rooms
-export const allRooms: Room[] = [
+// Ground floor (Level 1)
+const groundFloorRooms: RoomDefinition[] = [
   ...createCorridorNetwork(),
   
   // Main entrances and stairs
   {
     id: "main-entrance",
     name: "Main Entrance",
+    aliases: ["front gate", "main gate", "entry"],
     x: 659,
     y: 610,
     connections: ["zigzag-stairs", "reception-hall"],
@@ -98,6 +108,7 @@ export const allRooms: Room[] = [
   {
     id: "zigzag-stairs",
     name: "Zig Zag Steps",
+    aliases: ["zigzag stairs", "steps"],
     x: 729,
     y: 538,
     connections: ["main-entrance", "central-corridor", "green-room", "w6"],
@@ -116,10 +127,12 @@ export const allRooms: Room[] = [
   {
     id: "seminar-hall",
     name: "Seminar Hall",
+    aliases: ["seminar"],
     x: 206,
     y: 330,
     connections: ["seminar-hall-entrance"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "auditorium-1",
@@ -128,6 +141,7 @@ export const allRooms: Room[] = [
     y: 525,
     connections: ["w1"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "auditorium-2",
@@ -136,6 +150,7 @@ export const allRooms: Room[] = [
     y: 120,
     connections: ["w5"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "lab-1-entrance",
@@ -152,6 +167,14 @@ export const allRooms: Room[] = [
     y: 100,
     connections: ["lab-1-entrance"],
     type: "room",
+    category: "lab",
+    footprint: [
+      { x: 490, y: 70 },
+      { x: 610, y: 70 },
+      { x: 610, y: 125 },
+      { x: 490, y: 125 },
+    ],
+    doors: [{ x: 550, y: 125 }],
   },
   {
     id: "lab-2-entrance",
@@ -168,6 +191,14 @@ export const allRooms: Room[] = [
     y: 100,
     connections: ["lab-2-entrance"],
     type: "room",
+    category: "lab",
+    footprint: [
+      { x: 320, y: 70 },
+      { x: 430, y: 70 },
+      { x: 430, y: 125 },
+      { x: 320, y: 125 },
+    ],
+    doors: [{ x: 380, y: 125 }],
   },
   {
     id: "lab-3-entrance",
@@ -184,6 +215,14 @@ export const allRooms: Room[] = [
     y: 200,
     connections: ["lab-3-entrance"],
     type: "room",
+    category: "lab",
+    footprint: [
+      { x: 280, y: 165 },
+      { x: 325, y: 165 },
+      { x: 325, y: 225 },
+      { x: 280, y: 225 },
+    ],
+    doors: [{ x: 300, y: 225 }],
   },
   {
     id: "lab-4-entrance",
@@ -200,6 +239,7 @@ export const allRooms: Room[] = [
     y: 380,
     connections: ["lab-4-entrance"],
     type: "room",
+    category: "lab",
   },
   
   // Green Rooms
@@ -210,6 +250,7 @@ export const allRooms: Room[] = [
     y: 529,
     connections: ["zigzag-stairs"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "green-room-1-entrance",
@@ -226,6 +267,7 @@ export const allRooms: Room[] = [
     y: 380,
     connections: ["green-room-1-entrance"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "green-room-2-entrance",
@@ -242,6 +284,7 @@ export const allRooms: Room[] = [
     y: 330,
     connections: ["green-room-2-entrance"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "green-room-3-entrance",
@@ -258,6 +301,7 @@ export const allRooms: Room[] = [
     y: 280,
     connections: ["green-room-3-entrance"],
     type: "room",
+    category: "auditorium",
   },
   
   // Right side (Admin offices)
@@ -272,10 +316,12 @@ export const allRooms: Room[] = [
   {
     id: "exam-hall",
     name: "Exam Hall",
+    aliases: ["examination hall", "exam cell"],
     x: 880,
     y: 275,
     connections: ["exam-hall-entrance"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "main-office-entrance",
@@ -288,10 +334,12 @@ export const allRooms: Room[] = [
   {
     id: "main-office",
     name: "MAIN OFFICE",
+    aliases: ["office"],
     x: 850,
     y: 375,
     connections: ["main-office-entrance"],
     type: "room",
+    category: "office",
   },
   {
     id: "admin-office-entrance",
@@ -308,14 +356,17 @@ export const allRooms: Room[] = [
     y: 375,
     connections: ["admin-office-entrance"],
     type: "room",
+    category: "admin",
   },
   {
     id: "reception-hall",
     name: "Reception",
+    aliases: ["reception hall", "front desk", "enquiry"],
     x: 750,
     y: 580,
     connections: ["main-entrance"],
     type: "room",
+    category: "admin",
   },
   
   // Extra rooms from the map
@@ -326,14 +377,17 @@ export const allRooms: Room[] = [
     y: 505,
     connections: ["w3"],
     type: "room",
+    category: "office",
   },
   {
     id: "cdc",
     name: "CDC",
+    aliases: ["Career Development Centre", "placement"],
     x: 1050,
     y: 505,
     connections: ["w4"],
     type: "room",
+    category: "office",
   },
   {
     id: "master-board-room",
@@ -342,56 +396,68 @@ export const allRooms: Room[] = [
     y: 255,
     connections: ["w4"],
     type: "room",
+    category: "admin",
   },
   {
     id: "wash-hall",
     name: "Wash Hall",
+    aliases: ["hand wash"],
     x: 1155,
     y: 370,
     connections: ["w4"],
     type: "room",
+    category: "restroom",
   },
   
   // Additional rooms based on user request
   {
     id: "server-room",
     name: "Server Room",
+    aliases: ["servers", "IT"],
     x: 460,
     y: 150,
     connections: ["w5"],
     type: "room",
+    category: "lab",
   },
   {
     id: "step-l2",
     name: "Step-l2",
+    aliases: ["stairs to level 2", "staircase"],
     x: 400,
     y: 300,
-    connections: ["w5"],
+    connections: ["w5", "level-2-landing"],
     type: "stairs",
   },
   {
     id: "boys-restroom",
     name: "Boys RestRoom",
+    aliases: ["restroom", "washroom", "toilet", "bathroom", "WC", "gents"],
     x: 280,
     y: 320,
     connections: ["w5"],
     type: "room",
+    category: "restroom",
   },
   {
     id: "girls-restroom",
     name: "Girls RestRoom",
+    aliases: ["restroom", "washroom", "toilet", "bathroom", "WC", "ladies"],
     x: 320,
     y: 320,
     connections: ["w5"],
     type: "room",
+    category: "restroom",
   },
   {
     id: "vip-pantry",
     name: "VIP Pantry",
+    aliases: ["pantry", "kitchen"],
     x: 920,
     y: 200,
     connections: ["w7"],
     type: "room",
+    category: "food",
   },
   {
     id: "vip-waiting",
@@ -400,54 +466,67 @@ export const allRooms: Room[] = [
     y: 230,
     connections: ["w7"],
     type: "room",
+    category: "admin",
   },
   {
     id: "pantry",
     name: "Pantry",
+    aliases: ["kitchen", "tea", "coffee"],
     x: 880,
     y: 320,
     connections: ["w3"],
     type: "room",
+    category: "food",
   },
   {
     id: "vip-dining",
     name: "VIP Dining",
+    aliases: ["dining", "canteen"],
     x: 980,
     y: 180,
     connections: ["w7"],
     type: "room",
+    category: "food",
   },
   {
     id: "chairman-office",
     name: "Chairman Office",
+    aliases: ["chairman", "chairman's office"],
     x: 1050,
     y: 250,
     connections: ["w4"],
     type: "room",
+    category: "admin",
   },
   {
     id: "principle-office",
     name: "Principle Office",
+    aliases: ["principal", "principal office", "principal's office"],
     x: 1020,
     y: 300,
     connections: ["w4"],
     type: "room",
+    category: "admin",
   },
   {
     id: "oat",
     name: "OAT",
+    aliases: ["Open Air Theatre", "open air theater"],
     x: 500,
     y: 550,
     connections: ["w6"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "aids",
     name: "AIDS",
+    aliases: ["AI&DS", "AI & DS", "Artificial Intelligence and Data Science"],
     x: 525,
     y: 230,
     connections: ["w2"],
     type: "room",
+    category: "office",
   },
   {
     id: "meeting-room",
@@ -456,22 +535,27 @@ export const allRooms: Room[] = [
     y: 400,
     connections: ["admin-office-entrance"],
     type: "room",
+    category: "admin",
   },
   {
     id: "transport-office",
     name: "Transport office",
+    aliases: ["transport", "bus office"],
     x: 900,
     y: 450,
     connections: ["w3"],
     type: "room",
+    category: "office",
   },
   {
     id: "admission-office",
     name: "Admission Office",
+    aliases: ["admissions", "admission"],
     x: 850,
     y: 480,
     connections: ["w3"],
     type: "room",
+    category: "admin",
   },
   {
     id: "falcon-hall",
@@ -480,6 +564,7 @@ export const allRooms: Room[] = [
     y: 250,
     connections: ["w3"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "harmony",
@@ -488,6 +573,7 @@ export const allRooms: Room[] = [
     y: 150,
     connections: ["w7"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "symphony",
@@ -496,6 +582,7 @@ export const allRooms: Room[] = [
     y: 150,
     connections: ["w7"],
     type: "room",
+    category: "auditorium",
   },
   {
     id: "waiting-hall",
@@ -504,10 +591,12 @@ export const allRooms: Room[] = [
     y: 550,
     connections: ["w6"],
     type: "room",
+    category: "admin",
   },
   {
     id: "step-l5",
     name: "Step-l5",
+    aliases: ["staircase"],
     x: 450,
     y: 550,
     connections: ["w6"],
@@ -516,10 +605,12 @@ export const allRooms: Room[] = [
   {
     id: "pt-room",
     name: "PT Room",
+    aliases: ["Physical Training", "PT", "sports room"],
     x: 350,
     y: 520,
     connections: ["w6"],
     type: "room",
+    category: "office",
   },
   {
     id: "store-room",
@@ -528,6 +619,7 @@ export const allRooms: Room[] = [
     y: 550,
     connections: ["w6"],
     type: "room",
+    category: "office",
   },
   {
     id: "oak-leaf",
@@ -536,13 +628,33 @@ export const allRooms: Room[] = [
     y: 200,
     connections: ["w7"],
     type: "room",
+    category: "auditorium",
+  },
+];
+
+// Level 2 - only the stair landing is mapped until the floor blueprint is surveyed
+const levelTwoRooms: RoomDefinition[] = [
+  {
+    id: "level-2-landing",
+    name: "Level 2 Landing",
+    x: 400,
+    y: 300,
+    connections: ["step-l2"],
+    type: "stairs",
   },
 ];
 
-// Create connections between rooms (add edges for the pathfinding graph)
-// This implementation relies on the connections already defined in each room
-export const setupRoomConnections = () => {
-  // For future enhancement: We can dynamically add connections 
-  // based on proximity or other rules
-  return allRooms;
+// Create all rooms
+export const allRooms: Room[] = [
+  ...placeOnFloor(MAIN_BLOCK, 1, groundFloorRooms),
+  ...placeOnFloor(MAIN_BLOCK, 2, levelTwoRooms),
+];
+
+// Create connections between rooms (add edges for the pathfinding graph).
+// Connections typed above only need to be listed on one side; the builder
+// mirrors them, drops duplicates and can link nearby corridor waypoints.
+export const setupRoomConnections = (options: GraphBuildOptions = {}): CampusGraph => {
+  return buildGraph(allRooms, options);
 };
+
+export const campusGraph = setupRoomConnections();
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import { CampusGraph } from "@/lib/graph";
+import { LoadedCampus } from "@/lib/campusLoader";
+
+export interface CampusDataContextValue extends LoadedCampus {
+  graph: CampusGraph;
+}
+
+export const CampusDataContext = createContext<CampusDataContextValue | null>(null);
+
+// Rooms, floors and the routing graph, from the published map file or the bundle
+export function useCampusData() {
+  const context = useContext(CampusDataContext);
+  if (!context) {
+    throw new Error("useCampusData must be used within a CampusDataProvider.");
+  }
+  return context;
+}
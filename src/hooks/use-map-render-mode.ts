@@ -0,0 +1,38 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_RENDER_MODE, MapRenderMode } from "@/lib/mapRenderer";
+
+const STORAGE_KEY = "campus-map:renderer";
+
+// Storage can be unavailable (private browsing, blocked cookies); the build default applies then
+const readStoredMode = (): MapRenderMode => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === "svg" || stored === "canvas" ? stored : DEFAULT_RENDER_MODE;
+  } catch {
+    return DEFAULT_RENDER_MODE;
+  }
+};
+
+// The renderer the map shows. A `preferred` mode from the parent sets it, and
+// again whenever the parent changes it; without one the visitor's last pick is
+// used. Picks made with the toggle are remembered across visits either way.
+export function useMapRenderMode(preferred?: MapRenderMode) {
+  const [mode, setMode] = useState<MapRenderMode>(() => preferred ?? readStoredMode());
+
+  const [lastPreferred, setLastPreferred] = useState(preferred);
+  if (preferred !== lastPreferred) {
+    setLastPreferred(preferred);
+    if (preferred) setMode(preferred);
+  }
+
+  const changeMode = useCallback((next: MapRenderMode) => {
+    setMode(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Still switch for this visit
+    }
+  }, []);
+
+  return [mode, changeMode] as const;
+}
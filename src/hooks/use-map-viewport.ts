@@ -0,0 +1,376 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+
+// Screen placement of the map: container pixels of the blueprint's top-left
+// corner, and blueprint pixels per screen pixel
+export interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Area of the blueprint, in blueprint pixels
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 3;
+
+const WHEEL_ZOOM_SPEED = 0.0015; // Per wheel pixel, applied exponentially
+const DRAG_THRESHOLD = 5; // Screen pixels before a press counts as a pan, not a click
+const DOUBLE_TAP_DELAY = 300; // ms
+const DOUBLE_TAP_DISTANCE = 25;
+const DOUBLE_TAP_ZOOM = 2;
+const VELOCITY_WINDOW = 100; // ms of recent movement used for the fling speed
+const MOMENTUM_FRICTION = 0.95; // Speed kept per 16ms frame
+const MOMENTUM_MIN_SPEED = 0.02; // px/ms below which the map stops gliding
+const VISIBLE_FRACTION = 0.5; // Share of the screen (or map, if smaller) that stays covered
+const FIT_DURATION = 450; // ms
+const FIT_PADDING = 80; // Screen pixels around fitted bounds
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+const measure = (element: HTMLElement | null): Size => ({
+  width: element?.offsetWidth ?? 0,
+  height: element?.offsetHeight ?? 0,
+});
+
+// Keep enough of the blueprint on screen that it can't be flung out of reach
+const clampViewport = (viewport: Viewport, container: Size, content: Size): Viewport => {
+  const scale = clampScale(viewport.scale);
+  if (!content.width || !container.width) return { ...viewport, scale };
+
+  const clampAxis = (offset: number, containerLength: number, contentLength: number) => {
+    const scaled = contentLength * scale;
+    const visible = Math.min(scaled, containerLength) * VISIBLE_FRACTION;
+    return Math.min(Math.max(offset, visible - scaled), containerLength - visible);
+  };
+
+  return {
+    scale,
+    x: clampAxis(viewport.x, container.width, content.width),
+    y: clampAxis(viewport.y, container.height, content.height),
+  };
+};
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const prefersReducedMotion = () => window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false;
+
+export const getBounds = (points: readonly Point[]): Bounds => ({
+  minX: Math.min(...points.map(p => p.x)),
+  minY: Math.min(...points.map(p => p.y)),
+  maxX: Math.max(...points.map(p => p.x)),
+  maxY: Math.max(...points.map(p => p.y)),
+});
+
+const distance = (a: Point, b: Point) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Presses on buttons, sliders and links overlaid on the map are theirs, not a pan
+const isControl = (target: EventTarget) =>
+  target instanceof Element && Boolean(target.closest("button, a, input, [role='slider']"));
+
+// Pan and zoom for the map: one-finger or mouse drag with momentum, two-finger
+// pinch and wheel zoom anchored under the fingers/cursor, double-tap zoom, and
+// bounds that keep the blueprint in view. Fitting animates to an area.
+export function useMapViewport(containerRef: RefObject<HTMLElement>, contentSize: Size) {
+  const [viewport, setViewportState] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+  const [dragging, setDragging] = useState(false);
+
+  // Latest values for gesture maths between renders
+  const viewportRef = useRef(viewport);
+  const contentRef = useRef(contentSize);
+  contentRef.current = contentSize;
+
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<{ viewport: Viewport; points: Point[]; moved: boolean } | null>(null);
+  const samples = useRef<{ point: Point; time: number }[]>([]);
+  const lastTap = useRef<{ point: Point; time: number } | null>(null);
+  const animationFrame = useRef<number | null>(null); // Momentum glide or fit transition
+  const ignoreNextClick = useRef(false);
+
+  const setViewport = useCallback((next: Viewport | ((current: Viewport) => Viewport)) => {
+    const resolved = typeof next === "function" ? next(viewportRef.current) : next;
+    const clamped = clampViewport(resolved, measure(containerRef.current), contentRef.current);
+    viewportRef.current = clamped;
+    setViewportState(clamped);
+  }, [containerRef]);
+
+  const stopAnimation = useCallback(() => {
+    if (animationFrame.current !== null) cancelAnimationFrame(animationFrame.current);
+    animationFrame.current = null;
+  }, []);
+
+  // Ease to `target`; any gesture or zoom takes over straight away
+  const animateTo = useCallback((target: Viewport) => {
+    stopAnimation();
+    const end = clampViewport(target, measure(containerRef.current), contentRef.current);
+    if (prefersReducedMotion()) {
+      setViewport(end);
+      return;
+    }
+
+    const start = viewportRef.current;
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const t = easeOutCubic(Math.min((now - startTime) / FIT_DURATION, 1));
+      setViewport({
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+        scale: start.scale + (end.scale - start.scale) * t,
+      });
+      animationFrame.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    animationFrame.current = requestAnimationFrame(step);
+  }, [containerRef, setViewport, stopAnimation]);
+
+  // Frame an area of the blueprint with some room around it
+  const fitBounds = useCallback((bounds: Bounds, maxScale: number = MAX_SCALE) => {
+    const container = measure(containerRef.current);
+    if (!container.width) return;
+
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const scale = clampScale(Math.min(
+      (container.width - FIT_PADDING * 2) / Math.max(width, 1),
+      (container.height - FIT_PADDING * 2) / Math.max(height, 1),
+      maxScale
+    ));
+
+    animateTo({
+      scale,
+      x: container.width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale,
+      y: container.height / 2 - ((bounds.minY + bounds.maxY) / 2) * scale,
+    });
+  }, [animateTo, containerRef]);
+
+  // Zoom by `factor`, keeping the map point under `anchor` (container pixels) still
+  const zoomAt = useCallback((factor: number, anchor?: Point) => {
+    stopAnimation();
+    setViewport(current => {
+      const container = measure(containerRef.current);
+      const point = anchor ?? { x: container.width / 2, y: container.height / 2 };
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: point.x - (point.x - current.x) * ratio, y: point.y - (point.y - current.y) * ratio };
+    });
+  }, [containerRef, setViewport, stopAnimation]);
+
+  // Centre the whole blueprint; the size can be passed before it reaches state
+  const centerContent = useCallback((content: Size = contentRef.current, scale: number = viewportRef.current.scale) => {
+    stopAnimation();
+    const container = measure(containerRef.current);
+    setViewport({
+      scale,
+      x: (container.width - content.width * scale) / 2,
+      y: (container.height - content.height * scale) / 2,
+    });
+  }, [containerRef, setViewport, stopAnimation]);
+
+  // Blueprint pixels under a screen position
+  const toMapPoint = useCallback((clientX: number, clientY: number): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const { x, y, scale } = viewportRef.current;
+    return {
+      x: (clientX - (rect?.left ?? 0) - x) / scale,
+      y: (clientY - (rect?.top ?? 0) - y) / scale,
+    };
+  }, [containerRef]);
+
+  // A click that ends a drag, pinch or double tap should not select anything
+  const consumeGestureClick = useCallback(() => {
+    const ignore = ignoreNextClick.current;
+    ignoreNextClick.current = false;
+    return ignore;
+  }, []);
+
+  const toContainerPoint = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+  };
+
+  // Restart the gesture from the current fingers whenever one is added or lifted
+  const beginGesture = (moved: boolean) => {
+    const points = [...pointers.current.values()];
+    gesture.current = points.length > 0 ? { viewport: viewportRef.current, points, moved } : null;
+    samples.current = [];
+  };
+
+  const startMomentum = () => {
+    const recent = samples.current;
+    if (recent.length < 2) return;
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const elapsed = last.time - first.time;
+    if (elapsed <= 0) return;
+
+    let vx = (last.point.x - first.point.x) / elapsed;
+    let vy = (last.point.y - first.point.y) / elapsed;
+    let previous = performance.now();
+
+    const glide = (now: number) => {
+      const dt = now - previous;
+      previous = now;
+
+      const before = viewportRef.current;
+      setViewport(current => ({ ...current, x: current.x + vx * dt, y: current.y + vy * dt }));
+      const after = viewportRef.current;
+
+      const decay = Math.pow(MOMENTUM_FRICTION, dt / 16);
+      vx *= decay;
+      vy *= decay;
+
+      // Stop when slow, or when a bound has swallowed the movement
+      const stalled = after.x === before.x && after.y === before.y;
+      if (Math.hypot(vx, vy) < MOMENTUM_MIN_SPEED || stalled) {
+        animationFrame.current = null;
+        return;
+      }
+      animationFrame.current = requestAnimationFrame(glide);
+    };
+
+    if (Math.hypot(vx, vy) >= MOMENTUM_MIN_SPEED) animationFrame.current = requestAnimationFrame(glide);
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (isControl(e.target) || (e.pointerType === "mouse" && e.button !== 0)) return;
+
+    stopAnimation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, toContainerPoint(e));
+    beginGesture(gesture.current?.moved ?? false);
+    setDragging(true);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+
+    pointers.current.set(e.pointerId, toContainerPoint(e));
+    const points = [...pointers.current.values()];
+    const start = gesture.current;
+
+    if (points.length === 1) {
+      const dx = points[0].x - start.points[0].x;
+      const dy = points[0].y - start.points[0].y;
+      if (!start.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+      start.moved = true;
+      setViewport({ ...start.viewport, x: start.viewport.x + dx, y: start.viewport.y + dy });
+
+      const now = performance.now();
+      samples.current = [...samples.current, { point: points[0], time: now }].filter(
+        sample => now - sample.time <= VELOCITY_WINDOW
+      );
+      return;
+    }
+
+    if (points.length === 2 && start.points.length === 2) {
+      // Pinch: scale with finger spread, and keep the map point between them under them
+      start.moved = true;
+      const startMid = midpoint(start.points[0], start.points[1]);
+      const mid = midpoint(points[0], points[1]);
+      const scale = clampScale(
+        start.viewport.scale * (distance(points[0], points[1]) / Math.max(distance(start.points[0], start.points[1]), 1))
+      );
+      const mapX = (startMid.x - start.viewport.x) / start.viewport.scale;
+      const mapY = (startMid.y - start.viewport.y) / start.viewport.scale;
+      setViewport({ scale, x: mid.x - mapX * scale, y: mid.y - mapY * scale });
+    }
+  };
+
+  const endPointer = (e: React.PointerEvent, cancelled: boolean) => {
+    if (!pointers.current.has(e.pointerId)) return;
+
+    const point = pointers.current.get(e.pointerId);
+    const wasSingle = pointers.current.size === 1;
+    const moved = gesture.current?.moved ?? false;
+    pointers.current.delete(e.pointerId);
+
+    if (pointers.current.size > 0) {
+      // One finger lifted mid-pinch: carry on panning with the other
+      beginGesture(true);
+      return;
+    }
+
+    setDragging(false);
+    gesture.current = null;
+    if (cancelled) return;
+
+    if (moved) {
+      ignoreNextClick.current = true;
+      if (wasSingle) startMomentum();
+      return;
+    }
+
+    // Double tap zooms in around the finger; at full zoom it goes back out
+    if (e.pointerType === "touch") {
+      const now = performance.now();
+      const previous = lastTap.current;
+      if (previous && now - previous.time < DOUBLE_TAP_DELAY && distance(previous.point, point) < DOUBLE_TAP_DISTANCE) {
+        lastTap.current = null;
+        ignoreNextClick.current = true;
+        const atMax = viewportRef.current.scale >= MAX_SCALE - 0.01;
+        zoomAt(atMax ? 1 / MAX_SCALE : DOUBLE_TAP_ZOOM, point);
+        return;
+      }
+      lastTap.current = { point, time: now };
+    }
+  };
+
+  // React wheel listeners are passive, so page scrolling can only be stopped natively
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 40 : e.deltaY;
+      zoomAt(Math.exp(-delta * WHEEL_ZOOM_SPEED), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [containerRef, zoomAt]);
+
+  // Re-apply the bounds when the window (and with it the map area) resizes
+  useEffect(() => {
+    const handleResize = () => setViewport(current => current);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, [setViewport]);
+
+  useEffect(() => stopAnimation, [stopAnimation]);
+
+  return {
+    viewport,
+    dragging,
+    setViewport,
+    zoomAt,
+    centerContent,
+    fitBounds,
+    toMapPoint,
+    consumeGestureClick,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: (e: React.PointerEvent) => endPointer(e, false),
+      onPointerCancel: (e: React.PointerEvent) => endPointer(e, true),
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface SpeakOptions {
+  voice?: SpeechSynthesisVoice | null;
+  rate?: number;
+}
+
+const isSupported = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Wraps the browser Speech Synthesis API. Voices load asynchronously in most
+// browsers, so the list is refreshed whenever `voiceschanged` fires.
+export function useSpeechSynthesis() {
+  const supported = isSupported();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [speaking, setSpeaking] = useState(false);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+      window.speechSynthesis.cancel();
+    };
+  }, [supported]);
+
+  const speak = useCallback((text: string, { voice, rate = 1 }: SpeakOptions = {}) => {
+    if (!supported) return;
+
+    // Never queue behind a stale instruction
+    window.speechSynthesis.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+    utterance.rate = rate;
+    utterance.onstart = () => setSpeaking(true);
+    utterance.onend = () => setSpeaking(false);
+    utterance.onerror = () => setSpeaking(false);
+
+    window.speechSynthesis.speak(utterance);
+  }, [supported]);
+
+  const cancel = useCallback(() => {
+    if (!supported) return;
+    window.speechSynthesis.cancel();
+    setSpeaking(false);
+  }, [supported]);
+
+  return { supported, voices, speaking, speak, cancel };
+}
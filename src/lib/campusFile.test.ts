@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { CampusData, parseCampusFile, serializeCampusFile, toCampusFile } from "@/lib/campusFile";
+import { bundledCampusData } from "@/lib/campusLoader";
+
+const room = (id: string, connections: string[], overrides: Partial<Room> = {}): Room => ({
+  id,
+  name: id,
+  x: 0,
+  y: 0,
+  floor: 1,
+  building: "main",
+  type: "room",
+  connections,
+  ...overrides,
+});
+
+const campus = (rooms: Room[]): CampusData => ({
+  buildings: [{ id: "main", name: "Main" }],
+  floors: [{
+    level: 1,
+    name: "Level 1",
+    building: "main",
+    blueprint: "/level-1.png",
+    scale: { from: { x: 0, y: 0 }, to: { x: 100, y: 0 }, metres: 10 },
+  }],
+  rooms,
+});
+
+const collinear = [
+  { pixel: { x: 0, y: 0 }, lngLat: [77, 11] },
+  { pixel: { x: 100, y: 100 }, lngLat: [77.001, 11.001] },
+  { pixel: { x: 200, y: 200 }, lngLat: [77.002, 11.002] },
+];
+
+// Export, then import what was exported
+const roundTrip = (data: CampusData): CampusData => {
+  const result = parseCampusFile(JSON.parse(serializeCampusFile(data)));
+  if (result.success === false) throw new Error(result.errors.join("\n"));
+  return result.data;
+};
+
+describe("toCampusFile", () => {
+  it("lists each link once with its access feature", () => {
+    const file = toCampusFile(campus([
+      room("a", ["b"], { connectionAccess: { b: "ramp" } }),
+      room("b", ["a", "c"]),
+      room("c", ["b"]),
+    ]));
+
+    expect(file.edges).toEqual([{ from: "a", to: "b", access: "ramp" }, { from: "b", to: "c" }]);
+  });
+
+  it("drops links to rooms that no longer exist", () => {
+    const file = toCampusFile(campus([room("a", ["b", "deleted"]), room("b", ["a"])]));
+
+    expect(file.edges).toEqual([{ from: "a", to: "b" }]);
+  });
+});
+
+describe("campus file round trip", () => {
+  it("imports what it exports after a room has been deleted", () => {
+    const data = campus([room("a", ["b", "deleted"]), room("b", ["a"])]);
+
+    expect(toCampusFile(roundTrip(data))).toEqual(toCampusFile(data));
+  });
+
+  it("keeps the bundled campus intact", () => {
+    expect(toCampusFile(roundTrip(bundledCampusData))).toEqual(toCampusFile(bundledCampusData));
+  });
+
+  it("rejects control points that all lie on one line", () => {
+    const result = parseCampusFile({ ...toCampusFile(campus([])), georeference: collinear });
+
+    expect(result.success === false && result.errors).toEqual(["georeference: Control points must not all lie on one line"]);
+  });
+
+  it("rejects files from a newer version of the app", () => {
+    const result = parseCampusFile({ ...toCampusFile(campus([])), version: 99 });
+
+    expect(result.success).toBe(false);
+  });
+});
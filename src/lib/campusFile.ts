@@ -0,0 +1,207 @@
+import { z } from "zod";
+import { AccessFeature, Room } from "@/lib/pathfinding";
+import { legendCategories, RoomCategory } from "@/lib/categories";
+import { ControlPoint, fitAffine, invertAffine } from "@/lib/georeference";
+import { Building, Floor } from "@/data/floorData";
+
+// Bump when the file layout changes in a way older readers can't handle
+export const CAMPUS_FILE_VERSION = 1;
+
+// Everything the app needs to draw and route a campus
+export interface CampusData {
+  buildings: Building[];
+  floors: Floor[];
+  rooms: Room[];
+  georeference?: ControlPoint[];
+}
+
+export type CampusParseResult =
+  | { success: true; data: CampusData }
+  | { success: false; errors: string[] };
+
+const roomTypes = ["room", "waypoint", "entrance", "stairs", "lift"] as const;
+const accessFeatures = ["stairs", "steps", "ramp", "lift"] as const;
+
+const idSchema = z.string().min(1);
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+const accessSchema = z.enum(accessFeatures);
+
+const buildingSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+});
+
+const floorSchema = z.object({
+  level: z.number().int(),
+  name: z.string(),
+  building: idSchema,
+  blueprint: z.string(),
+  scale: z.object({ from: pointSchema, to: pointSchema, metres: z.number().positive() }),
+});
+
+const roomSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  x: z.number(),
+  y: z.number(),
+  floor: z.number().int(),
+  building: idSchema,
+  type: z.enum(roomTypes),
+  aliases: z.array(z.string()).optional(),
+  category: z.enum(legendCategories as [RoomCategory, ...RoomCategory[]]).optional(),
+  access: accessSchema.optional(),
+  footprint: z.array(pointSchema).min(3).optional(),
+  doors: z.array(pointSchema).optional(),
+});
+
+// Connections are listed once here rather than on each room
+const edgeSchema = z.object({
+  from: idSchema,
+  to: idSchema,
+  access: accessSchema.optional(), // Feature on the connection, e.g. a ramp
+});
+
+const controlPointSchema = z.object({
+  pixel: pointSchema,
+  lngLat: z.tuple([z.number(), z.number()]),
+});
+
+// Points all on one line leave the map-to-coordinates fit undefined in one direction
+export const georeferenceSchema = z
+  .array(controlPointSchema)
+  .min(3)
+  .superRefine((points, ctx) => {
+    if (points.length < 3) return; // Reported by min()
+    const transform = fitAffine(points as ControlPoint[]);
+    if (!transform || !invertAffine(transform)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Control points must not all lie on one line" });
+    }
+  });
+
+export const campusFileSchema = z
+  .object({
+    version: z.literal(CAMPUS_FILE_VERSION),
+    buildings: z.array(buildingSchema),
+    floors: z.array(floorSchema).min(1),
+    rooms: z.array(roomSchema),
+    edges: z.array(edgeSchema),
+    georeference: georeferenceSchema.optional(),
+  })
+  .superRefine((file, ctx) => {
+    const roomIds = new Set<string>();
+    file.rooms.forEach((room, i) => {
+      if (roomIds.has(room.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rooms", i, "id"], message: `Duplicate room id "${room.id}"` });
+      }
+      roomIds.add(room.id);
+    });
+
+    file.edges.forEach((edge, i) => {
+      (["from", "to"] as const).forEach(end => {
+        if (!roomIds.has(edge[end])) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["edges", i, end], message: `Unknown room "${edge[end]}"` });
+        }
+      });
+    });
+
+    const buildingIds = new Set(file.buildings.map(building => building.id));
+    file.floors.forEach((floor, i) => {
+      if (!buildingIds.has(floor.building)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["floors", i, "building"], message: `Unknown building "${floor.building}"` });
+      }
+    });
+  });
+
+export interface CampusEdge {
+  from: string;
+  to: string;
+  access?: AccessFeature;
+}
+
+// On-disk layout, as checked by campusFileSchema
+export interface CampusFile {
+  version: number;
+  buildings: Building[];
+  floors: Floor[];
+  rooms: Omit<Room, "connections" | "connectionAccess">[];
+  edges: CampusEdge[];
+  georeference?: ControlPoint[];
+}
+
+// Both directions of a link collapse into one edge; access may be recorded on either side.
+// Links to rooms that no longer exist are dropped, since the schema would reject them on import.
+export const toCampusFile = (data: CampusData): CampusFile => {
+  const edges: CampusEdge[] = [];
+  const seen = new Set<string>();
+  const roomsById = new Map(data.rooms.map(room => [room.id, room]));
+
+  data.rooms.forEach(room => {
+    room.connections.forEach(otherId => {
+      if (!roomsById.has(otherId)) return;
+
+      const key = [room.id, otherId].sort().join("|");
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const access = room.connectionAccess?.[otherId] ?? roomsById.get(otherId)?.connectionAccess?.[room.id];
+      edges.push(access ? { from: room.id, to: otherId, access } : { from: room.id, to: otherId });
+    });
+  });
+
+  return {
+    version: CAMPUS_FILE_VERSION,
+    buildings: data.buildings,
+    floors: data.floors,
+    rooms: data.rooms.map(room => {
+      const { connections, connectionAccess, ...fields } = room;
+      return fields;
+    }),
+    edges,
+    ...(data.georeference ? { georeference: data.georeference } : {}),
+  };
+};
+
+const fromCampusFile = (file: CampusFile): CampusData => {
+  const rooms: Room[] = file.rooms.map(room => ({ ...room, connections: [] }));
+  const roomsById = new Map(rooms.map(room => [room.id, room]));
+
+  file.edges.forEach(edge => {
+    const from = roomsById.get(edge.from);
+    if (!from.connections.includes(edge.to)) from.connections.push(edge.to);
+    if (edge.access) {
+      from.connectionAccess = { ...from.connectionAccess, [edge.to]: edge.access };
+    }
+  });
+
+  return { buildings: file.buildings, floors: file.floors, rooms, georeference: file.georeference };
+};
+
+// Readable one-line messages, e.g. `rooms[3].type: Invalid enum value`.
+// `within` names where the checked value sits when it is part of a larger document.
+export const formatIssues = (error: z.ZodError, within: (string | number)[] = []): string[] => {
+  return error.issues.map(issue => {
+    const path = [...within, ...issue.path].reduce<string>(
+      (text, part) => (typeof part === "number" ? `${text}[${part}]` : text ? `${text}.${part}` : part),
+      ""
+    );
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+};
+
+export const parseCampusFile = (input: unknown): CampusParseResult => {
+  const version = (input as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > CAMPUS_FILE_VERSION) {
+    return {
+      success: false,
+      errors: [`File is version ${version}; this app reads up to version ${CAMPUS_FILE_VERSION}`],
+    };
+  }
+
+  const result = campusFileSchema.safeParse(input);
+  if (!result.success) return { success: false, errors: formatIssues(result.error) };
+  return { success: true, data: fromCampusFile(result.data as CampusFile) };
+};
+
+export const serializeCampusFile = (data: CampusData): string => {
+  return JSON.stringify(toCampusFile(data), null, 2) + "\n";
+};
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { bundledCampusData, loadCampusData } from "@/lib/campusLoader";
+
+// A server that accepts the request and then never answers
+const hangingFetch = (_url: string, init: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init.signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("loadCampusData", () => {
+  it("falls back to the bundled map when the server does not answer in time", async () => {
+    vi.stubGlobal("fetch", vi.fn(hangingFetch));
+
+    const loaded = await loadCampusData("/campus.json", 20);
+
+    expect(loaded.source).toBe("bundled");
+    expect(loaded.data).toBe(bundledCampusData);
+    expect(loaded.errors).toEqual([]);
+  });
+
+  it("falls back to the bundled map when the host serves a page instead of JSON", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("<!doctype html>", { headers: { "content-type": "text/html" } })));
+
+    expect((await loadCampusData()).source).toBe("bundled");
+  });
+
+  it("reports a published file that is not valid JSON", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("{", { headers: { "content-type": "application/json" } })));
+
+    const loaded = await loadCampusData("/campus.json");
+
+    expect(loaded.source).toBe("bundled");
+    expect(loaded.errors).toEqual(["/campus.json is not valid JSON"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { CampusData, CampusParseResult, parseCampusFile } from "@/lib/campusFile";
+import { isGeoJson, parseGeoJson } from "@/lib/geojson";
+import { allRooms } from "@/data/roomData";
+import { buildings, campusGeoreference, floors } from "@/data/floorData";
+
+// Where facilities staff drop an updated map; overridable per deployment
+export const CAMPUS_DATA_URL = import.meta.env.VITE_CAMPUS_DATA_URL || "/campus.json";
+
+// The map compiled into the bundle, used when no runtime file is published.
+// Floors are copied because a loaded file replaces the shared list.
+export const bundledCampusData: CampusData = {
+  buildings,
+  floors: [...floors],
+  rooms: allRooms,
+  georeference: campusGeoreference,
+};
+
+export interface LoadedCampus {
+  data: CampusData;
+  source: "bundled" | "file";
+  errors: string[]; // Why a published file was rejected, if it was
+}
+
+// Accepts either the campus file layout or a GeoJSON export of it
+export const parseCampusDocument = (input: unknown): CampusParseResult => {
+  return isGeoJson(input) ? parseGeoJson(input) : parseCampusFile(input);
+};
+
+// A slow or hanging server should not hold the map back for long
+export const CAMPUS_DATA_TIMEOUT_MS = 5000;
+
+export const loadCampusData = async (
+  url: string = CAMPUS_DATA_URL,
+  timeoutMs: number = CAMPUS_DATA_TIMEOUT_MS
+): Promise<LoadedCampus> => {
+  const bundled: LoadedCampus = { data: bundledCampusData, source: "bundled", errors: [] };
+
+  // The deadline covers reading the body as well as the response headers
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { cache: "no-cache", signal: controller.signal });
+    } catch {
+      return bundled;
+    }
+
+    // Static hosts answer a missing file with index.html rather than a 404
+    if (!response.ok || !response.headers.get("content-type")?.includes("json")) return bundled;
+
+    let json: unknown;
+    try {
+      json = await response.json();
+    } catch {
+      if (controller.signal.aborted) return bundled;
+      return { ...bundled, errors: [`${url} is not valid JSON`] };
+    }
+
+    const result = parseCampusDocument(json);
+    if (result.success === false) return { ...bundled, errors: result.errors };
+    return { data: result.data, source: "file", errors: [] };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
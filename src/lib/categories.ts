@@ -0,0 +1,69 @@
+import {
+  Building2,
+  Briefcase,
+  DoorOpen,
+  FlaskConical,
+  Footprints,
+  LucideIcon,
+  MapPin,
+  Presentation,
+  Toilet,
+  UtensilsCrossed,
+} from "lucide-react";
+import { Room } from "@/lib/pathfinding";
+
+export type RoomCategory =
+  | "restroom"
+  | "lab"
+  | "office"
+  | "auditorium"
+  | "food"
+  | "admin"
+  | "emergency"
+  | "circulation"
+  | "general";
+
+export interface CategoryInfo {
+  label: string;
+  color: string; // Marker colour on the map
+  glyph: string; // Short text drawn inside canvas markers
+  icon: LucideIcon; // Icon used in the legend and lists
+}
+
+export const categoryInfo: Record<RoomCategory, CategoryInfo> = {
+  restroom: { label: "Restrooms", color: "#0ea5e9", glyph: "WC", icon: Toilet },
+  lab: { label: "Labs", color: "#10b981", glyph: "L", icon: FlaskConical },
+  office: { label: "Offices", color: "#6366f1", glyph: "O", icon: Briefcase },
+  auditorium: { label: "Halls", color: "#ec4899", glyph: "H", icon: Presentation },
+  food: { label: "Food", color: "#f59e0b", glyph: "F", icon: UtensilsCrossed },
+  admin: { label: "Admin", color: "#8b5cf6", glyph: "A", icon: Building2 },
+  emergency: { label: "Exits", color: "#dc2626", glyph: "E", icon: DoorOpen },
+  circulation: { label: "Stairs", color: "#64748b", glyph: "S", icon: Footprints },
+  general: { label: "Other", color: "#6b7280", glyph: "", icon: MapPin },
+};
+
+// Categories shown as legend chips, in display order
+export const legendCategories: RoomCategory[] = [
+  "restroom",
+  "lab",
+  "office",
+  "auditorium",
+  "food",
+  "admin",
+  "emergency",
+  "circulation",
+  "general",
+];
+
+// Explicit category wins; otherwise infer what we can from the node type
+export const getRoomCategory = (room: Room): RoomCategory => {
+  if (room.category) return room.category;
+  if (room.type === "entrance") return "emergency";
+  if (room.type === "stairs" || room.type === "lift" || room.type === "waypoint") return "circulation";
+  return "general";
+};
+
+// An empty filter means every category is visible
+export const isCategoryVisible = (room: Room, visibleCategories: RoomCategory[]): boolean => {
+  return visibleCategories.length === 0 || visibleCategories.includes(getRoomCategory(room));
+};
@@ -0,0 +1,85 @@
+import { Room } from "@/lib/pathfinding";
+
+// Selection encoded in a URL: /route/:from/:to, /room/:id, /here/:start or /?from=&to=&accessible=1,
+// with optional &via=a&via=b stops and &optimize=1
+export interface LinkSelection {
+  fromId: string | null;
+  toId: string | null;
+  viaIds: string[];
+  accessible: boolean;
+  optimize: boolean;
+}
+
+export const parseLinkSelection = (
+  params: { from?: string; to?: string; id?: string; start?: string },
+  searchParams: URLSearchParams
+): LinkSelection => {
+  return {
+    fromId: params.from ?? params.start ?? searchParams.get("from"),
+    toId: params.to ?? params.id ?? searchParams.get("to"),
+    viaIds: searchParams.getAll("via").filter(Boolean),
+    accessible: searchParams.get("accessible") === "1",
+    optimize: searchParams.get("optimize") === "1",
+  };
+};
+
+// Query string for the options that ride along with every link form
+const buildOptionsQuery = (via: Room[], accessible: boolean, optimize: boolean): URLSearchParams => {
+  const search = new URLSearchParams();
+  via.forEach(room => search.append("via", room.id));
+  if (accessible) search.set("accessible", "1");
+  if (optimize) search.set("optimize", "1");
+  return search;
+};
+
+// Canonical in-app URL used to keep the address bar in sync with the selection
+export const buildSelectionUrl = (
+  start: Room | null,
+  destination: Room | null,
+  accessible: boolean = false,
+  via: Room[] = [],
+  optimize: boolean = false
+): string => {
+  const search = new URLSearchParams();
+  if (start) search.set("from", start.id);
+  if (destination) search.set("to", destination.id);
+  buildOptionsQuery(via, accessible, optimize).forEach((value, key) => search.append(key, value));
+
+  const query = search.toString();
+  return query ? `/?${query}` : "/";
+};
+
+// Readable path for sharing, e.g. /route/main-entrance/exam-hall
+export const buildSharePath = (
+  start: Room | null,
+  destination: Room | null,
+  accessible: boolean = false,
+  via: Room[] = [],
+  optimize: boolean = false
+): string => {
+  const options = buildOptionsQuery(via, accessible, optimize).toString();
+  const query = options ? `?${options}` : "";
+
+  if (start && destination) {
+    return `/route/${encodeURIComponent(start.id)}/${encodeURIComponent(destination.id)}${query}`;
+  }
+  if (destination) {
+    return `/room/${encodeURIComponent(destination.id)}${query}`;
+  }
+  return buildSelectionUrl(start, null, accessible, via, optimize);
+};
+
+// Short "You are here" link printed on wall signs; kept short so QR codes stay coarse
+export const buildHerePath = (room: Room): string => {
+  return `/here/${encodeURIComponent(room.id)}`;
+};
+
+export const buildShareUrl = (
+  start: Room | null,
+  destination: Room | null,
+  accessible: boolean = false,
+  via: Room[] = [],
+  optimize: boolean = false
+): string => {
+  return `${window.location.origin}${buildSharePath(start, destination, accessible, via, optimize)}`;
+};
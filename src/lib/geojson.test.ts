@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { ControlPoint } from "@/lib/georeference";
+import { parseGeoJson, toGeoJson } from "@/lib/geojson";
+import { bundledCampusData } from "@/lib/campusLoader";
+
+// Three blueprint points along one diagonal
+const collinear: ControlPoint[] = [
+  { pixel: { x: 0, y: 0 }, lngLat: [77, 11] },
+  { pixel: { x: 100, y: 100 }, lngLat: [77.001, 11.001] },
+  { pixel: { x: 200, y: 200 }, lngLat: [77.002, 11.002] },
+];
+
+describe("toGeoJson", () => {
+  it("explains why control points on one line can't be exported", () => {
+    expect(() => toGeoJson({ ...bundledCampusData, georeference: collinear })).toThrow(/all lie on one line/);
+  });
+});
+
+describe("parseGeoJson", () => {
+  const exported = () => JSON.parse(JSON.stringify(toGeoJson(bundledCampusData)));
+
+  it("reads back what it exports", () => {
+    const result = parseGeoJson(exported());
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.rooms).toHaveLength(bundledCampusData.rooms.length);
+  });
+
+  it("rejects malformed control points instead of converting with them", () => {
+    const input = exported();
+    input.campus.georeference[1] = { pixel: { x: 10 } };
+
+    expect(parseGeoJson(input)).toEqual({
+      success: false,
+      errors: ["campus.georeference[1].pixel.y: Required", "campus.georeference[1].lngLat: Required"],
+    });
+  });
+
+  it("rejects control points that all lie on one line", () => {
+    const input = exported();
+    input.campus.georeference = collinear;
+
+    expect(parseGeoJson(input)).toEqual({
+      success: false,
+      errors: ["campus.georeference: Control points must not all lie on one line"],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import {
+  CAMPUS_FILE_VERSION,
+  CampusData,
+  CampusParseResult,
+  formatIssues,
+  georeferenceSchema,
+  parseCampusFile,
+  toCampusFile,
+} from "@/lib/campusFile";
+import { MapPoint } from "@/lib/geometry";
+import { ControlPoint, fitAffine, invertAffine, lngLatToPixel, pixelToLngLat } from "@/lib/georeference";
+import { campusGeoreference } from "@/data/floorData";
+
+// Only the parts of GeoJSON we read and write
+export interface GeoJsonFeature {
+  type: "Feature";
+  geometry:
+    | { type: "Point"; coordinates: [number, number] }
+    | { type: "LineString"; coordinates: [number, number][] }
+    | { type: "Polygon"; coordinates: [number, number][][] };
+  properties: Record<string, unknown>;
+}
+
+export interface CampusGeoJson {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+  // Foreign member carrying what GeoJSON has no place for, so imports round-trip
+  campus: {
+    version: number;
+    buildings: CampusData["buildings"];
+    floors: CampusData["floors"];
+    georeference: ControlPoint[];
+  };
+}
+
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+
+const featureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("Point"), coordinates: positionSchema }),
+    z.object({ type: z.literal("LineString"), coordinates: z.array(positionSchema).min(2) }),
+    z.object({ type: z.literal("Polygon"), coordinates: z.array(z.array(positionSchema).min(4)).min(1) }),
+  ]),
+  properties: z.record(z.unknown()).nullable(),
+});
+
+const collectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(z.unknown()),
+  campus: z.object({
+    buildings: z.array(z.unknown()),
+    floors: z.array(z.unknown()),
+    georeference: z.array(z.unknown()).optional(),
+  }),
+});
+
+export const isGeoJson = (input: unknown): boolean => {
+  return (input as { type?: unknown } | null)?.type === "FeatureCollection";
+};
+
+// Rooms become points and connections become lines, in longitude/latitude.
+// Footprints and doors are separate features that name their room.
+export const toGeoJson = (data: CampusData): CampusGeoJson => {
+  const georeference = data.georeference ?? campusGeoreference;
+  const transform = fitAffine(georeference);
+  if (!transform) throw new Error("The georeference control points all lie on one line, so map positions can't be converted to coordinates");
+  const file = toCampusFile(data);
+  const roomsById = new Map(file.rooms.map(room => [room.id, room]));
+
+  const toLngLat = (x: number, y: number): [number, number] => {
+    const [lng, lat] = pixelToLngLat(transform, x, y);
+    // Seven decimals is about a centimetre
+    return [Number(lng.toFixed(7)), Number(lat.toFixed(7))];
+  };
+
+  const points: GeoJsonFeature[] = file.rooms.map(({ x, y, footprint, doors, ...properties }) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: toLngLat(x, y) },
+    properties: { kind: "room", ...properties },
+  }));
+
+  const footprints: GeoJsonFeature[] = file.rooms
+    .filter(room => room.footprint)
+    .map(room => {
+      // GeoJSON rings repeat the first position at the end
+      const ring = [...room.footprint, room.footprint[0]].map(point => toLngLat(point.x, point.y));
+      return {
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [ring] },
+        properties: { kind: "footprint", room: room.id },
+      };
+    });
+
+  const doors: GeoJsonFeature[] = file.rooms.flatMap(room =>
+    (room.doors ?? []).map((door): GeoJsonFeature => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: toLngLat(door.x, door.y) },
+      properties: { kind: "door", room: room.id },
+    }))
+  );
+
+  const lines: GeoJsonFeature[] = file.edges.map(edge => {
+    const from = roomsById.get(edge.from);
+    const to = roomsById.get(edge.to);
+    return {
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: [toLngLat(from.x, from.y), toLngLat(to.x, to.y)] },
+      properties: { kind: "edge", ...edge, floors: [from.floor, to.floor] },
+    };
+  });
+
+  return {
+    type: "FeatureCollection",
+    features: [...points, ...footprints, ...doors, ...lines],
+    campus: {
+      version: CAMPUS_FILE_VERSION,
+      buildings: file.buildings,
+      floors: file.floors,
+      georeference,
+    },
+  };
+};
+
+// Converts back to the campus file layout and validates it like any other file
+export const parseGeoJson = (input: unknown): CampusParseResult => {
+  const collection = collectionSchema.safeParse(input);
+  if (collection.success === false) {
+    return { success: false, errors: ["Not a campus GeoJSON export: the \"campus\" floor and building data is missing"] };
+  }
+
+  // Checked up front: every position below is converted with these points
+  const parsedGeoreference = georeferenceSchema.optional().safeParse(collection.data.campus.georeference);
+  if (parsedGeoreference.success === false) {
+    return { success: false, errors: formatIssues(parsedGeoreference.error, ["campus", "georeference"]) };
+  }
+
+  const georeference = (parsedGeoreference.data as ControlPoint[] | undefined) ?? campusGeoreference;
+  const transform = fitAffine(georeference);
+  const inverse = transform && invertAffine(transform);
+  if (!inverse) return { success: false, errors: ["campus.georeference: control points must not be collinear"] };
+
+  const rooms: Record<string, unknown>[] = [];
+  const edges: unknown[] = [];
+  const errors: string[] = [];
+  const footprints = new Map<unknown, MapPoint[]>();
+  const doors = new Map<unknown, MapPoint[]>();
+
+  const toPixel = ([lng, lat]: number[]): MapPoint => {
+    const { x, y } = lngLatToPixel(inverse, lng, lat);
+    return { x: Math.round(x), y: Math.round(y) };
+  };
+
+  collection.data.features.forEach((raw, i) => {
+    const feature = featureSchema.safeParse(raw);
+    if (feature.success === false) {
+      errors.push(`features[${i}]: not a Point, LineString or Polygon feature`);
+      return;
+    }
+
+    const { geometry } = feature.data;
+    const { kind, floors, ...properties } = feature.data.properties ?? {};
+    if (geometry.type === "Point" && kind === "door") {
+      doors.set(properties.room, [...(doors.get(properties.room) ?? []), toPixel(geometry.coordinates)]);
+    } else if (geometry.type === "Point" && kind !== "edge") {
+      rooms.push({ ...properties, ...toPixel(geometry.coordinates) });
+    } else if (geometry.type === "Polygon") {
+      // Outer ring only, without the closing position
+      footprints.set(properties.room, geometry.coordinates[0].slice(0, -1).map(toPixel));
+    } else if (geometry.type === "LineString" && kind !== "room") {
+      edges.push(properties);
+    }
+  });
+
+  if (errors.length > 0) return { success: false, errors };
+
+  rooms.forEach(room => {
+    if (footprints.has(room.id)) room.footprint = footprints.get(room.id);
+    if (doors.has(room.id)) room.doors = doors.get(room.id);
+  });
+
+  return parseCampusFile({
+    version: CAMPUS_FILE_VERSION,
+    buildings: collection.data.campus.buildings,
+    floors: collection.data.campus.floors,
+    rooms,
+    edges,
+    georeference: collection.data.campus.georeference,
+  });
+};
+
+export const serializeGeoJson = (data: CampusData): string => {
+  return JSON.stringify(toGeoJson(data), null, 2) + "\n";
+};
@@ -0,0 +1,94 @@
+// A position on the blueprint, in image pixels
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+const EPSILON = 1e-9;
+
+export const getPointDistance = (a: MapPoint, b: MapPoint): number => {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+};
+
+const getSegmentDistance = (point: MapPoint, a: MapPoint, b: MapPoint): number => {
+  const lengthSquared = Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2);
+  if (lengthSquared === 0) return getPointDistance(point, a);
+
+  const t = Math.min(Math.max(((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared, 0), 1);
+  return getPointDistance(point, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+};
+
+const isPointOnOutline = (point: MapPoint, polygon: readonly MapPoint[]): boolean => {
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (getSegmentDistance(point, polygon[j], polygon[i]) < 1e-6) return true;
+  }
+  return false;
+};
+
+// Ray casting; points exactly on an edge may land either side
+export const isPointInPolygon = (point: MapPoint, polygon: readonly MapPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Shoelace formula, always positive
+export const getPolygonArea = (polygon: readonly MapPoint[]): number => {
+  let twiceArea = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twiceArea += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+// Where along a→b (0..1) the segment meets the polygon outline
+const getBoundaryHits = (a: MapPoint, b: MapPoint, polygon: readonly MapPoint[]): number[] => {
+  const hits: number[] = [];
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const p = polygon[j];
+    const sx = polygon[i].x - p.x;
+    const sy = polygon[i].y - p.y;
+    const denominator = rx * sy - ry * sx;
+    if (Math.abs(denominator) < EPSILON) continue; // Parallel: touching along an edge is not entering
+
+    const t = ((p.x - a.x) * sy - (p.y - a.y) * sx) / denominator;
+    const u = ((p.x - a.x) * ry - (p.y - a.y) * rx) / denominator;
+    if (t >= -EPSILON && t <= 1 + EPSILON && u >= -EPSILON && u <= 1 + EPSILON) {
+      hits.push(Math.min(Math.max(t, 0), 1));
+    }
+  }
+
+  return hits;
+};
+
+const pointAlong = (a: MapPoint, b: MapPoint, t: number): MapPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+// True when some stretch of the segment lies inside the polygon; only grazing
+// a corner or running along an edge does not count
+export const segmentEntersPolygon = (a: MapPoint, b: MapPoint, polygon: readonly MapPoint[]): boolean => {
+  const cuts = [0, ...getBoundaryHits(a, b, polygon), 1].sort((p, q) => p - q);
+
+  for (let i = 1; i < cuts.length; i++) {
+    if (cuts[i] - cuts[i - 1] < EPSILON) continue;
+    const midpoint = pointAlong(a, b, (cuts[i - 1] + cuts[i]) / 2);
+    if (!isPointOnOutline(midpoint, polygon) && isPointInPolygon(midpoint, polygon)) return true;
+  }
+  return false;
+};
+
+// Points where the segment crosses the polygon outline
+export const getBoundaryCrossings = (a: MapPoint, b: MapPoint, polygon: readonly MapPoint[]): MapPoint[] => {
+  return getBoundaryHits(a, b, polygon).map(t => pointAlong(a, b, t));
+};
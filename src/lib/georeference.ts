@@ -0,0 +1,79 @@
+// A blueprint pixel pinned to a real-world position
+export interface ControlPoint {
+  pixel: { x: number; y: number };
+  lngLat: [number, number]; // GeoJSON order: longitude, latitude
+}
+
+// lng = a·x + b·y + c, lat = d·x + e·y + f
+export interface AffineTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+const determinant3 = (m: number[][]): number =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+  m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+  m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+// Solve a 3×3 linear system with Cramer's rule
+const solve3 = (m: number[][], rhs: number[]): [number, number, number] | null => {
+  const det = determinant3(m);
+  if (Math.abs(det) < 1e-12) return null;
+
+  const column = (i: number) => determinant3(m.map((row, r) => row.map((value, c) => (c === i ? rhs[r] : value))));
+  return [column(0) / det, column(1) / det, column(2) / det];
+};
+
+// Least-squares affine fit; three points give an exact fit, more average out
+// survey error. Returns null when the points are collinear.
+export const fitAffine = (points: readonly ControlPoint[]): AffineTransform | null => {
+  if (points.length < 3) return null;
+
+  // Normal equations: (AᵀA)·p = Aᵀ·b with rows [x, y, 1]
+  const ata = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const atLng = [0, 0, 0];
+  const atLat = [0, 0, 0];
+
+  points.forEach(({ pixel, lngLat }) => {
+    const row = [pixel.x, pixel.y, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) ata[i][j] += row[i] * row[j];
+      atLng[i] += row[i] * lngLat[0];
+      atLat[i] += row[i] * lngLat[1];
+    }
+  });
+
+  const lng = solve3(ata, atLng);
+  const lat = solve3(ata, atLat);
+  if (!lng || !lat) return null;
+
+  return { a: lng[0], b: lng[1], c: lng[2], d: lat[0], e: lat[1], f: lat[2] };
+};
+
+export const invertAffine = (t: AffineTransform): AffineTransform | null => {
+  const det = t.a * t.e - t.b * t.d;
+  if (Math.abs(det) < 1e-18) return null;
+
+  return {
+    a: t.e / det,
+    b: -t.b / det,
+    c: (t.b * t.f - t.e * t.c) / det,
+    d: -t.d / det,
+    e: t.a / det,
+    f: (t.d * t.c - t.a * t.f) / det,
+  };
+};
+
+export const pixelToLngLat = (t: AffineTransform, x: number, y: number): [number, number] => {
+  return [t.a * x + t.b * y + t.c, t.d * x + t.e * y + t.f];
+};
+
+// Same formula; pass the inverted transform
+export const lngLatToPixel = (inverse: AffineTransform, lng: number, lat: number): { x: number; y: number } => {
+  const [x, y] = pixelToLngLat(inverse, lng, lat);
+  return { x, y };
+};
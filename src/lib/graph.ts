@@ -0,0 +1,151 @@
+import { AccessFeature, Room } from "@/lib/pathfinding";
+
+// Cost (in map units) of climbing or descending a single level
+export const FLOOR_CHANGE_COST = 150;
+
+// Stairs and lifts are the only nodes allowed to link different floors
+export const isFloorConnector = (room: Room): boolean => {
+  return room.type === "stairs" || room.type === "lift";
+};
+
+// Calculate Euclidean distance between two rooms, plus a penalty per level changed
+export const calculateDistance = (room1: Room, room2: Room): number => {
+  const planar = Math.sqrt(Math.pow(room1.x - room2.x, 2) + Math.pow(room1.y - room2.y, 2));
+  return planar + Math.abs(room1.floor - room2.floor) * FLOOR_CHANGE_COST;
+};
+
+// Feature of the node itself, falling back to what its type implies
+export const getNodeAccess = (room: Room): AccessFeature | undefined => {
+  if (room.access) return room.access;
+  if (room.type === "stairs") return "stairs";
+  if (room.type === "lift") return "lift";
+  return undefined;
+};
+
+// Feature of the connection between two nodes. An explicit per-connection
+// value wins; otherwise any stairs or steps at either end make it non step-free.
+export const getConnectionAccess = (from: Room, to: Room): AccessFeature | undefined => {
+  const explicit = from.connectionAccess?.[to.id] ?? to.connectionAccess?.[from.id];
+  if (explicit) return explicit;
+
+  const features = [getNodeAccess(from), getNodeAccess(to)];
+  if (features.includes("stairs")) return "stairs";
+  if (features.includes("steps")) return "steps";
+  if (features.includes("lift")) return "lift";
+  if (features.includes("ramp")) return "ramp";
+  return undefined;
+};
+
+// Level corridors, ramps and lifts can be used by wheelchairs and trolleys
+export const isStepFree = (access: AccessFeature | undefined): boolean => {
+  return access !== "stairs" && access !== "steps";
+};
+
+export interface Neighbor {
+  readonly room: Room;
+  readonly distance: number;
+  readonly access?: AccessFeature;
+}
+
+export interface GraphEdge {
+  readonly from: Room;
+  readonly to: Room;
+  readonly distance: number;
+  readonly access?: AccessFeature;
+}
+
+// Read-only navigation graph built from the raw room list.
+// Consumers should walk `adjacency` rather than each room's raw `connections`.
+export interface CampusGraph {
+  readonly rooms: readonly Room[];
+  readonly roomsById: ReadonlyMap<string, Room>;
+  readonly adjacency: ReadonlyMap<string, readonly Neighbor[]>;
+  readonly edges: readonly GraphEdge[]; // Each undirected edge once, for drawing
+}
+
+export interface GraphBuildOptions {
+  symmetric?: boolean; // Mirror every connection so A -> B implies B -> A (default true)
+  proximityRadius?: number; // Link same-floor waypoints closer than this; 0 disables
+}
+
+// Turn raw room connections into a de-duplicated, frozen adjacency structure
+export const buildGraph = (rooms: Room[], options: GraphBuildOptions = {}): CampusGraph => {
+  const { symmetric = true, proximityRadius = 0 } = options;
+
+  const roomsById = new Map<string, Room>();
+  rooms.forEach(room => {
+    // First definition wins; duplicates are reported by validateGraph
+    if (!roomsById.has(room.id)) roomsById.set(room.id, room);
+  });
+
+  const links = new Map<string, Set<string>>();
+  roomsById.forEach((_, id) => links.set(id, new Set()));
+
+  const addLink = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+
+    const from = roomsById.get(fromId);
+    const to = roomsById.get(toId);
+    if (!from || !to) return; // Skip if connection points to non-existent room
+
+    // Floors may only be changed between stairs or lift nodes
+    if (from.floor !== to.floor && !(isFloorConnector(from) && isFloorConnector(to))) return;
+
+    links.get(fromId)!.add(toId);
+    if (symmetric) links.get(toId)!.add(fromId);
+  };
+
+  roomsById.forEach(room => {
+    room.connections.forEach(connectionId => addLink(room.id, connectionId));
+  });
+
+  // Corridor waypoints near each other are assumed to be walkable between
+  if (proximityRadius > 0) {
+    const waypoints = [...roomsById.values()].filter(room => room.type === "waypoint");
+
+    waypoints.forEach((a, i) => {
+      waypoints.slice(i + 1).forEach(b => {
+        if (a.floor !== b.floor || a.building !== b.building) return;
+        if (Math.hypot(a.x - b.x, a.y - b.y) > proximityRadius) return;
+
+        links.get(a.id)!.add(b.id);
+        links.get(b.id)!.add(a.id);
+      });
+    });
+  }
+
+  const adjacency = new Map<string, readonly Neighbor[]>();
+  const edges: GraphEdge[] = [];
+  const seenEdges = new Set<string>();
+
+  links.forEach((neighborIds, id) => {
+    const room = roomsById.get(id)!;
+    const neighbors: Neighbor[] = [];
+
+    neighborIds.forEach(neighborId => {
+      const neighbor = roomsById.get(neighborId)!;
+      const distance = calculateDistance(room, neighbor);
+      const access = getConnectionAccess(room, neighbor);
+      neighbors.push(Object.freeze({ room: neighbor, distance, access }));
+
+      const edgeKey = id < neighborId ? `${id}|${neighborId}` : `${neighborId}|${id}`;
+      if (!seenEdges.has(edgeKey)) {
+        seenEdges.add(edgeKey);
+        edges.push(Object.freeze({ from: room, to: neighbor, distance, access }));
+      }
+    });
+
+    adjacency.set(id, Object.freeze(neighbors));
+  });
+
+  return Object.freeze({
+    rooms: Object.freeze([...roomsById.values()]),
+    roomsById,
+    adjacency,
+    edges: Object.freeze(edges),
+  });
+};
+
+export const getNeighbors = (graph: CampusGraph, roomId: string): readonly Neighbor[] => {
+  return graph.adjacency.get(roomId) ?? [];
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { GraphIssueKind, validateGraph } from "@/lib/graphValidation";
+
+const room = (id: string, x: number, connections: string[], overrides: Partial<Room> = {}): Room => ({
+  id,
+  name: id.toUpperCase(),
+  x,
+  y: 0,
+  floor: 1,
+  building: "main",
+  type: "room",
+  connections,
+  ...overrides,
+});
+
+// a - w - b, all two-way and spaced apart
+const cleanRooms = (): Room[] => [
+  room("a", 0, ["w"]),
+  room("w", 50, ["a", "b"], { type: "waypoint", name: "" }),
+  room("b", 100, ["w"]),
+];
+
+const kinds = (rooms: Room[]): GraphIssueKind[] => validateGraph(rooms).issues.map(issue => issue.kind);
+
+describe("validateGraph", () => {
+  it("finds nothing wrong with a clean graph", () => {
+    const report = validateGraph(cleanRooms());
+
+    expect(report.issues).toEqual([]);
+    expect(report.isValid).toBe(true);
+    expect(report.roomCount).toBe(3);
+    expect(report.edgeCount).toBe(2);
+    expect(report.components).toHaveLength(1);
+  });
+
+  it("reports a connection that is only listed on one side", () => {
+    const rooms = [room("a", 0, ["b"]), room("b", 100, [])];
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["one-way-edge"]);
+    expect(report.issues[0].roomIds).toEqual(["a", "b"]);
+    expect(report.isValid).toBe(true);
+  });
+
+  it("reports a connection to an unknown id", () => {
+    const rooms = [...cleanRooms(), room("c", 150, ["missing"])];
+    rooms[2] = { ...rooms[2], connections: ["w", "c"] };
+    rooms[3] = { ...rooms[3], connections: ["b", "missing"] };
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["dangling-connection"]);
+    expect(report.issues[0].roomIds).toEqual(["c", "missing"]);
+    expect(report.isValid).toBe(false);
+  });
+
+  it("reports an id defined twice and keeps the first definition", () => {
+    const rooms = [...cleanRooms(), room("a", 500, [])];
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["duplicate-id"]);
+    expect(report.roomCount).toBe(3);
+    expect(report.isValid).toBe(false);
+  });
+
+  it("reports rooms cut off from the main network", () => {
+    const rooms = [...cleanRooms(), room("c", 300, ["d"]), room("d", 400, ["c"])];
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["unreachable-component"]);
+    expect(report.issues[0].roomIds.sort()).toEqual(["c", "d"]);
+    expect(report.components.map(component => component.length)).toEqual([3, 2]);
+    expect(report.isValid).toBe(false);
+  });
+
+  it("reports a zero-length edge once per pair", () => {
+    const rooms = [room("a", 0, ["b"]), room("b", 0.2, ["a"])];
+
+    expect(kinds(rooms)).toEqual(["zero-length-edge"]);
+  });
+
+  it("allows stairs on different floors to share coordinates", () => {
+    const rooms = [
+      room("s1", 0, ["s2"], { type: "stairs" }),
+      room("s2", 0, ["s1"], { type: "stairs", floor: 2 }),
+    ];
+
+    expect(kinds(rooms)).toEqual([]);
+  });
+
+  it("reports links between floors that are not both stairs or lifts", () => {
+    const rooms = [
+      room("s1", 0, ["s2", "r2"], { type: "stairs" }),
+      room("s2", 0, ["s1"], { type: "stairs", floor: 2 }),
+      room("r2", 100, ["s1"], { floor: 2 }),
+    ];
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["cross-floor-edge"]);
+    expect(report.issues[0].roomIds.sort()).toEqual(["r2", "s1"]);
+    expect(report.isValid).toBe(false);
+  });
+
+  it("counts a one-way link once", () => {
+    expect(validateGraph([room("a", 0, ["b"]), room("b", 100, [])]).edgeCount).toBe(1);
+  });
+
+  it("reports unnamed rooms but not unnamed waypoints", () => {
+    const rooms = cleanRooms();
+    rooms[0] = { ...rooms[0], name: "  " };
+    const report = validateGraph(rooms);
+
+    expect(kinds(rooms)).toEqual(["unnamed-node"]);
+    expect(report.issues[0].roomIds).toEqual(["a"]);
+    expect(report.isValid).toBe(true);
+  });
+});
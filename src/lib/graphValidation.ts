@@ -0,0 +1,170 @@
+import { Room } from "@/lib/pathfinding";
+import { isFloorConnector } from "@/lib/graph";
+
+export type GraphIssueKind =
+  | "duplicate-id"
+  | "dangling-connection"
+  | "one-way-edge"
+  | "zero-length-edge"
+  | "cross-floor-edge"
+  | "unreachable-component"
+  | "unnamed-node";
+
+export interface GraphIssue {
+  kind: GraphIssueKind;
+  severity: "error" | "warning";
+  roomIds: string[]; // Rooms involved, in the order they appear in the message
+  message: string;
+}
+
+export interface GraphReport {
+  issues: GraphIssue[];
+  components: string[][]; // Connected components, largest first
+  roomCount: number;
+  edgeCount: number; // Distinct links, each counted once whichever side lists it
+  isValid: boolean; // True when there are no error-level issues
+}
+
+// Edges shorter than this (in map units) are treated as zero length
+const ZERO_LENGTH_TOLERANCE = 0.5;
+
+// Split the graph into connected components, ignoring edge direction
+const findComponents = (rooms: Room[], roomsById: Map<string, Room>): string[][] => {
+  const undirected = new Map<string, Set<string>>();
+  rooms.forEach(room => undirected.set(room.id, new Set()));
+
+  rooms.forEach(room => {
+    room.connections.forEach(connectionId => {
+      if (!roomsById.has(connectionId)) return;
+      undirected.get(room.id)!.add(connectionId);
+      undirected.get(connectionId)!.add(room.id);
+    });
+  });
+
+  const visited = new Set<string>();
+  const components: string[][] = [];
+
+  undirected.forEach((_, id) => {
+    if (visited.has(id)) return;
+
+    const component: string[] = [];
+    const stack = [id];
+    visited.add(id);
+
+    while (stack.length > 0) {
+      const currentId = stack.pop()!;
+      component.push(currentId);
+
+      undirected.get(currentId)!.forEach(neighborId => {
+        if (visited.has(neighborId)) return;
+        visited.add(neighborId);
+        stack.push(neighborId);
+      });
+    }
+
+    components.push(component);
+  });
+
+  return components.sort((a, b) => b.length - a.length);
+};
+
+// Check the room graph for data-entry mistakes that break routing
+export const validateGraph = (rooms: Room[]): GraphReport => {
+  const issues: GraphIssue[] = [];
+  const roomsById = new Map<string, Room>();
+  const links = new Set<string>();
+
+  // Duplicate ids - later entries silently shadow earlier ones
+  rooms.forEach(room => {
+    if (roomsById.has(room.id)) {
+      issues.push({
+        kind: "duplicate-id",
+        severity: "error",
+        roomIds: [room.id],
+        message: `"${room.id}" is defined more than once`,
+      });
+      return;
+    }
+    roomsById.set(room.id, room);
+  });
+
+  roomsById.forEach(room => {
+    // Unnamed nodes show up as blank entries in the search and directions
+    if (room.type !== "waypoint" && room.name.trim() === "") {
+      issues.push({
+        kind: "unnamed-node",
+        severity: "warning",
+        roomIds: [room.id],
+        message: `${room.type} "${room.id}" has no name`,
+      });
+    }
+
+    room.connections.forEach(connectionId => {
+      const neighbor = roomsById.get(connectionId);
+
+      if (!neighbor) {
+        issues.push({
+          kind: "dangling-connection",
+          severity: "error",
+          roomIds: [room.id, connectionId],
+          message: `"${room.id}" connects to unknown id "${connectionId}"`,
+        });
+        return;
+      }
+
+      // setupRoomConnections mirrors these, but the data should still be fixed
+      if (!neighbor.connections.includes(room.id)) {
+        issues.push({
+          kind: "one-way-edge",
+          severity: "warning",
+          roomIds: [room.id, connectionId],
+          message: `"${room.id}" connects to "${connectionId}" but not the other way round`,
+        });
+      }
+
+      links.add(room.id < connectionId ? `${room.id}|${connectionId}` : `${connectionId}|${room.id}`);
+
+      // Report each symmetric pair once; stairs between floors legitimately share x/y
+      const isReverseOfReported = neighbor.connections.includes(room.id) && connectionId < room.id;
+      const length = Math.hypot(room.x - neighbor.x, room.y - neighbor.y);
+      if (!isReverseOfReported && room.floor === neighbor.floor && length < ZERO_LENGTH_TOLERANCE) {
+        issues.push({
+          kind: "zero-length-edge",
+          severity: "warning",
+          roomIds: [room.id, connectionId],
+          message: `"${room.id}" and "${connectionId}" sit on the same coordinates`,
+        });
+      }
+
+      // buildGraph drops these, so the route through them silently disappears
+      if (!isReverseOfReported && room.floor !== neighbor.floor && !(isFloorConnector(room) && isFloorConnector(neighbor))) {
+        issues.push({
+          kind: "cross-floor-edge",
+          severity: "error",
+          roomIds: [room.id, connectionId],
+          message: `"${room.id}" (floor ${room.floor}) and "${connectionId}" (floor ${neighbor.floor}) are linked across floors but are not both stairs or lifts`,
+        });
+      }
+    });
+  });
+
+  const components = findComponents([...roomsById.values()], roomsById);
+
+  // Everything outside the largest component cannot be reached from the main network
+  components.slice(1).forEach(component => {
+    issues.push({
+      kind: "unreachable-component",
+      severity: "error",
+      roomIds: component,
+      message: `${component.length} node(s) are cut off from the main network: ${component.join(", ")}`,
+    });
+  });
+
+  return {
+    issues,
+    components,
+    roomCount: roomsById.size,
+    edgeCount: links.size,
+    isValid: !issues.some(issue => issue.severity === "error"),
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { generateInstructions, getTurnAngle } from "@/lib/instructions";
+
+const node = (id: string, x: number, y: number, overrides: Partial<Room> = {}): Room => ({
+  id,
+  name: "",
+  x,
+  y,
+  floor: 1,
+  building: "main",
+  type: "waypoint",
+  connections: [],
+  ...overrides,
+});
+
+const office = node("office", 0, 0, { type: "room", name: "Office" });
+const library = node("library", 200, 200, { type: "room", name: "Library" });
+const lab = node("lab", 150, 5, { type: "room", name: "Lab" });
+
+const maneuvers = (path: Room[], rooms: Room[] = path, stops: number[] = []) =>
+  generateInstructions(path, rooms, stops).map(step => step.maneuver);
+
+describe("getTurnAngle", () => {
+  it("takes the short way round", () => {
+    expect(getTurnAngle(170, -170)).toBe(20);
+    expect(getTurnAngle(-170, 170)).toBe(-20);
+    expect(getTurnAngle(0, 180)).toBe(180);
+  });
+});
+
+describe("generateInstructions", () => {
+  // East along a corridor, then down the screen, which is a right turn
+  const path = [office, node("w1", 100, 0), node("w2", 200, 0), node("w3", 200, 100), library];
+
+  it("merges straight hops and names turns relative to the walker", () => {
+    const steps = generateInstructions(path, path);
+
+    expect(steps.map(step => step.maneuver)).toEqual(["depart", "right", "arrive"]);
+    expect(steps.map(step => [step.startIndex, step.endIndex])).toEqual([[0, 2], [2, 4], [4, 4]]);
+    expect(steps[0].text).toMatch(/^Leave Office and walk /);
+    expect(steps[1].target).toBe(library);
+    expect(steps[2].text).toBe("You have arrived at Library");
+  });
+
+  it("points out nearby rooms with the side they are on, once per route", () => {
+    const steps = generateInstructions(path, [...path, lab]);
+
+    expect(steps[0].landmarks).toEqual([{ room: lab, side: "right" }]);
+    expect(steps[0].text).toMatch(/passing Lab on your right$/);
+    expect(steps[1].landmarks).toEqual([]);
+  });
+
+  it("gives floor changes their own step and starts afresh upstairs", () => {
+    const upstairs = [
+      office,
+      node("st1", 100, 0, { type: "stairs", name: "Stairs" }),
+      node("st2", 100, 0, { type: "stairs", name: "Stairs", floor: 2 }),
+      node("hall", 200, 0, { type: "room", name: "Hall", floor: 2 }),
+    ];
+    const steps = generateInstructions(upstairs, upstairs);
+
+    expect(steps.map(step => step.maneuver)).toEqual(["depart", "stairs-up", "depart", "arrive"]);
+    expect(steps[1].text).toMatch(/^Take the stairs up to /);
+  });
+
+  it("announces itinerary stops on the way", () => {
+    const withStop = [...path];
+    withStop[2] = node("canteen", 200, 0, { type: "room", name: "Canteen" });
+    const steps = generateInstructions(withStop, withStop, [2]);
+
+    expect(steps.map(step => step.maneuver)).toEqual(["depart", "stop", "right", "arrive"]);
+    expect(steps[1].text).toBe("Stop 1: you have reached Canteen");
+  });
+
+  it("has nothing to say about a route without a second room", () => {
+    expect(maneuvers([office])).toEqual([]);
+  });
+});
@@ -0,0 +1,290 @@
+import { Room } from "@/lib/pathfinding";
+import { getConnectionAccess } from "@/lib/graph";
+import { getSegmentMetres, formatDistance } from "@/lib/walking";
+import { getFloor, getPixelsPerMetre } from "@/data/floorData";
+
+export type Maneuver =
+  | "depart"
+  | "straight"
+  | "slight-left"
+  | "slight-right"
+  | "left"
+  | "right"
+  | "sharp-left"
+  | "sharp-right"
+  | "u-turn"
+  | "steps"
+  | "stairs-up"
+  | "stairs-down"
+  | "lift-up"
+  | "lift-down"
+  | "stop"
+  | "arrive";
+
+export type Side = "left" | "right";
+
+export interface Landmark {
+  room: Room;
+  side: Side;
+}
+
+export interface Instruction {
+  maneuver: Maneuver;
+  text: string;
+  distance: number; // Metres walked during this step
+  startIndex: number; // Path index where the step begins
+  endIndex: number; // Path index where the step ends
+  target?: Room; // Named place reached at the end of the step
+  landmarks: Landmark[];
+}
+
+// Heading changes below this many degrees count as going straight on
+const STRAIGHT_ANGLE = 25;
+const SLIGHT_ANGLE = 60;
+const TURN_ANGLE = 135;
+const SHARP_ANGLE = 170;
+
+// How close a named room must be to the walked line to be worth mentioning
+const LANDMARK_RADIUS_METRES = 6;
+const MAX_LANDMARKS_PER_STEP = 2;
+
+const isNamed = (room: Room): boolean => {
+  return room.type !== "waypoint" && room.name.trim() !== "";
+};
+
+// Screen heading in degrees; the y axis points down, so clockwise is positive
+const getHeading = (from: Room, to: Room): number => {
+  return Math.atan2(to.y - from.y, to.x - from.x) * (180 / Math.PI);
+};
+
+// Signed change in heading between two segments, in (-180, 180]; positive means a right turn
+export const getTurnAngle = (before: number, after: number): number => {
+  let angle = after - before;
+  while (angle > 180) angle -= 360;
+  while (angle <= -180) angle += 360;
+  return angle;
+};
+
+const classifyTurn = (angle: number): Maneuver => {
+  const magnitude = Math.abs(angle);
+  const side = angle > 0 ? "right" : "left";
+
+  if (magnitude < STRAIGHT_ANGLE) return "straight";
+  if (magnitude < SLIGHT_ANGLE) return `slight-${side}` as Maneuver;
+  if (magnitude < TURN_ANGLE) return side;
+  if (magnitude < SHARP_ANGLE) return `sharp-${side}` as Maneuver;
+  return "u-turn";
+};
+
+const maneuverPhrases: Partial<Record<Maneuver, string>> = {
+  straight: "Continue straight",
+  "slight-left": "Bear left",
+  "slight-right": "Bear right",
+  left: "Turn left",
+  right: "Turn right",
+  "sharp-left": "Turn sharp left",
+  "sharp-right": "Turn sharp right",
+  "u-turn": "Turn around",
+};
+
+// Named rooms beside the walked segments, nearest first, with the side they are on
+const findLandmarks = (
+  path: Room[],
+  startIndex: number,
+  endIndex: number,
+  rooms: readonly Room[],
+  alreadyMentioned: Set<string>
+): Landmark[] => {
+  const first = path[startIndex];
+  const radius = LANDMARK_RADIUS_METRES * getPixelsPerMetre(getFloor(first.floor, first.building));
+  const onRoute = new Set(path.map(room => room.id));
+  const found = new Map<string, { landmark: Landmark; offset: number }>();
+
+  for (let i = startIndex; i < endIndex; i++) {
+    const from = path[i];
+    const to = path[i + 1];
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) continue;
+
+    rooms.forEach(room => {
+      if (!isNamed(room) || room.floor !== from.floor || onRoute.has(room.id) || alreadyMentioned.has(room.id)) return;
+
+      // Only rooms alongside the segment, not beyond either end of it
+      const t = ((room.x - from.x) * dx + (room.y - from.y) * dy) / lengthSquared;
+      if (t <= 0 || t >= 1) return;
+
+      const cross = dx * (room.y - from.y) - dy * (room.x - from.x);
+      const offset = Math.abs(cross) / Math.sqrt(lengthSquared);
+      if (offset > radius) return;
+
+      const existing = found.get(room.id);
+      if (!existing || offset < existing.offset) {
+        found.set(room.id, { landmark: { room, side: cross > 0 ? "right" : "left" }, offset });
+      }
+    });
+  }
+
+  return Array.from(found.values())
+    .sort((a, b) => a.offset - b.offset)
+    .slice(0, MAX_LANDMARKS_PER_STEP)
+    .map(entry => entry.landmark);
+};
+
+const describeWalk = (maneuver: Maneuver, distance: number, target: Room | undefined, landmarks: Landmark[], origin: Room): string => {
+  const lead = maneuver === "depart"
+    ? `Leave ${origin.name.trim() || "your starting point"} and walk ${formatDistance(distance)}`
+    : `${maneuverPhrases[maneuver]} and walk ${formatDistance(distance)}`;
+  const towards = target ? ` to ${target.name}` : "";
+  const passing = landmarks.length > 0
+    ? `, passing ${landmarks.map(l => `${l.room.name} on your ${l.side}`).join(" and ")}`
+    : "";
+
+  return `${lead}${towards}${passing}`;
+};
+
+const describeFloorChange = (from: Room, to: Room): { maneuver: Maneuver; text: string } => {
+  const goingUp = to.floor > from.floor;
+  const byLift = getConnectionAccess(from, to) === "lift";
+  const floorName = getFloor(to.floor, to.building).name;
+
+  return {
+    maneuver: `${byLift ? "lift" : "stairs"}-${goingUp ? "up" : "down"}` as Maneuver,
+    text: `Take the ${byLift ? "lift" : "stairs"} ${goingUp ? "up" : "down"} to ${floorName}`,
+  };
+};
+
+// Turn-by-turn steps for a route: collinear hops are merged into one walk,
+// floor changes and same-floor steps become their own steps, and each
+// itinerary stop (path index in `stopIndices`) is announced on arrival.
+export const generateInstructions = (
+  path: Room[],
+  rooms: readonly Room[],
+  stopIndices: number[] = []
+): Instruction[] => {
+  if (path.length < 2) return [];
+
+  const instructions: Instruction[] = [];
+  const stops = new Set(stopIndices);
+  let heading: number | null = null;
+  let runStart = 0;
+  let runManeuver: Maneuver = "depart";
+  const mentioned = new Set<string>();
+
+  const closeRun = (endIndex: number) => {
+    if (endIndex <= runStart) return;
+
+    let distance = 0;
+    for (let i = runStart; i < endIndex; i++) {
+      distance += getSegmentMetres(path[i], path[i + 1]);
+    }
+
+    const end = path[endIndex];
+    const target = isNamed(end) ? end : undefined;
+
+    // Each landmark is only worth pointing out once per route
+    const landmarks = findLandmarks(path, runStart, endIndex, rooms, mentioned);
+    landmarks.forEach(landmark => mentioned.add(landmark.room.id));
+
+    instructions.push({
+      maneuver: runManeuver,
+      text: describeWalk(runManeuver, distance, target, landmarks, path[runStart]),
+      distance,
+      startIndex: runStart,
+      endIndex,
+      target,
+      landmarks,
+    });
+  };
+
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+
+    if (from.floor !== to.floor) {
+      closeRun(i - 1);
+      const change = describeFloorChange(from, to);
+      instructions.push({
+        maneuver: change.maneuver,
+        text: change.text,
+        distance: 0,
+        startIndex: i - 1,
+        endIndex: i,
+        target: to,
+        landmarks: [],
+      });
+
+      // The stairwell can leave you facing any way, so the next walk starts fresh
+      heading = null;
+      runStart = i;
+      runManeuver = "depart";
+      continue;
+    }
+
+    // Zero-length hops (two nodes on the same spot) have no heading of their own
+    if (from.x !== to.x || from.y !== to.y) {
+      const segmentHeading = getHeading(from, to);
+
+      if (heading !== null) {
+        const maneuver = classifyTurn(getTurnAngle(heading, segmentHeading));
+
+        if (i - 1 === runStart) {
+          // The first hop of a walk decides how it begins
+          runManeuver = maneuver;
+        } else if (maneuver !== "straight") {
+          closeRun(i - 1);
+          runStart = i - 1;
+          runManeuver = maneuver;
+        }
+      }
+
+      heading = segmentHeading;
+    }
+
+    // Announce the same-floor steps and itinerary stops we arrive at
+    const isPassThrough = i < path.length - 1 && path[i + 1].floor === to.floor;
+    if (to.type === "stairs" && isPassThrough) {
+      closeRun(i);
+      instructions.push({
+        maneuver: "steps",
+        text: `Take the ${to.name.trim() || "steps"}`,
+        distance: 0,
+        startIndex: i,
+        endIndex: i,
+        target: to,
+        landmarks: [],
+      });
+      runStart = i;
+      runManeuver = "straight";
+    } else if (stops.has(i)) {
+      closeRun(i);
+      instructions.push({
+        maneuver: "stop",
+        text: `Stop ${Array.from(stops).sort((a, b) => a - b).indexOf(i) + 1}: you have reached ${to.name}`,
+        distance: 0,
+        startIndex: i,
+        endIndex: i,
+        target: to,
+        landmarks: [],
+      });
+      runStart = i;
+      runManeuver = "straight";
+    }
+  }
+
+  closeRun(path.length - 1);
+
+  const destination = path[path.length - 1];
+  instructions.push({
+    maneuver: "arrive",
+    text: `You have arrived at ${destination.name.trim() || "your destination"}`,
+    distance: 0,
+    startIndex: path.length - 1,
+    endIndex: path.length - 1,
+    target: destination,
+    landmarks: [],
+  });
+
+  return instructions;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { buildGraph } from "@/lib/graph";
+import { getStopArrivalIndices, optimizeStopOrder, planItinerary } from "@/lib/itinerary";
+
+// A straight corridor: s0 - s1 - ... - s13, 100 units apart, plus a cut-off room
+// upstairs (on the same floor the grid fallback would invent a route to it)
+const corridor = Array.from({ length: 14 }, (_, i): Room => ({
+  id: `s${i}`,
+  name: `Stop ${i}`,
+  x: i * 100,
+  y: 0,
+  floor: 1,
+  building: "main",
+  type: "room",
+  connections: i > 0 ? [`s${i - 1}`] : [],
+}));
+const island: Room = { ...corridor[0], id: "island", name: "Island", floor: 2, connections: [] };
+
+const graph = buildGraph([...corridor, island]);
+const stops = (...indices: number[]) => indices.map(i => graph.roomsById.get(`s${i}`)!);
+const ids = (rooms: Room[]) => rooms.map(room => room.id);
+
+describe("optimizeStopOrder", () => {
+  it("visits the middle stops in the cheapest order and keeps both ends", () => {
+    const ordered = optimizeStopOrder(stops(0, 7, 2, 5, 3, 13), graph);
+
+    expect(ids(ordered)).toEqual(ids(stops(0, 2, 3, 5, 7, 13)));
+  });
+
+  it("keeps a fixed end even when it sits in the middle of the corridor", () => {
+    const ordered = optimizeStopOrder(stops(0, 9, 1, 4), graph);
+
+    expect(ids(ordered)).toEqual(ids(stops(0, 1, 9, 4)));
+  });
+
+  it("orders more stops than the exact solver handles", () => {
+    const ordered = optimizeStopOrder(stops(0, 12, 3, 8, 1, 10, 5, 11, 2, 7, 4, 9, 6, 13), graph);
+
+    expect(ids(ordered)).toEqual(ids(stops(0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13)));
+  });
+
+  it("leaves three or fewer stops alone", () => {
+    const given = stops(0, 9, 1);
+
+    expect(optimizeStopOrder(given, graph)).toBe(given);
+  });
+});
+
+describe("planItinerary", () => {
+  it("joins the legs into one route without repeating the stops", () => {
+    const plan = planItinerary(stops(0, 2, 1), graph);
+
+    expect(plan.legs).toHaveLength(2);
+    expect(ids(plan.path)).toEqual(["s0", "s1", "s2", "s1"]);
+    expect(plan.distance).toBeCloseTo(plan.legs[0].distance + plan.legs[1].distance);
+    expect(getStopArrivalIndices(plan.legs)).toEqual([2]);
+  });
+
+  it("only reorders when asked to", () => {
+    expect(ids(planItinerary(stops(0, 3, 1, 4), graph).stops)).toEqual(ids(stops(0, 3, 1, 4)));
+    expect(ids(planItinerary(stops(0, 3, 1, 4), graph, { optimize: true }).stops)).toEqual(ids(stops(0, 1, 3, 4)));
+  });
+
+  it("has no joined route when a leg cannot be walked", () => {
+    const plan = planItinerary([...stops(0, 2), island], graph);
+
+    expect(plan.legs[1].path).toEqual([]);
+    expect(plan.path).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+import { Room, RouteOptions, getShortestPath, getShortestPathTree } from "@/lib/pathfinding";
+import { CampusGraph } from "@/lib/graph";
+import { getRouteMetres } from "@/lib/walking";
+
+export interface ItineraryOptions extends RouteOptions {
+  optimize?: boolean; // Reorder the stops between the first and last one
+}
+
+export interface ItineraryLeg {
+  from: Room;
+  to: Room;
+  path: Room[]; // Empty when this leg has no route
+  distance: number; // Metres
+}
+
+export interface ItineraryPlan {
+  stops: Room[]; // Visiting order, possibly optimised
+  legs: ItineraryLeg[];
+  path: Room[]; // All legs joined; empty unless every leg has a route
+  distance: number; // Metres
+}
+
+// Up to this many intermediate stops the order is solved exactly (Held-Karp)
+const EXACT_STOP_LIMIT = 9;
+
+// Finite stand-in for "no route" so orderings can still be compared
+const UNREACHABLE_COST = 1e9;
+
+const buildCostMatrix = (stops: Room[], graph: CampusGraph, options: RouteOptions): number[][] => {
+  return stops.map(from => {
+    const tree = getShortestPathTree(from, graph, options);
+    return stops.map(to => (from.id === to.id ? 0 : tree.costs.get(to.id) ?? UNREACHABLE_COST));
+  });
+};
+
+const orderCost = (order: number[], costs: number[][]): number => {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += costs[order[i - 1]][order[i]];
+  }
+  return total;
+};
+
+// Exact open-path TSP with both ends fixed; O(2^m · m^2) for m middle stops
+const solveExact = (costs: number[][]): number[] => {
+  const last = costs.length - 1;
+  const middle = costs.length - 2;
+  const full = (1 << middle) - 1;
+
+  // best[mask][j]: cheapest route from the first stop through `mask`, ending at middle stop j
+  const best: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(middle).fill(Infinity));
+  const parent: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(middle).fill(-1));
+
+  for (let j = 0; j < middle; j++) {
+    best[1 << j][j] = costs[0][j + 1];
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < middle; j++) {
+      if (!(mask & (1 << j)) || best[mask][j] === Infinity) continue;
+
+      for (let k = 0; k < middle; k++) {
+        if (mask & (1 << k)) continue;
+
+        const next = mask | (1 << k);
+        const cost = best[mask][j] + costs[j + 1][k + 1];
+        if (cost < best[next][k]) {
+          best[next][k] = cost;
+          parent[next][k] = j;
+        }
+      }
+    }
+  }
+
+  let end = 0;
+  for (let j = 1; j < middle; j++) {
+    if (best[full][j] + costs[j + 1][last] < best[full][end] + costs[end + 1][last]) end = j;
+  }
+
+  // Walk the parents back to recover the order
+  const order: number[] = [];
+  let mask = full;
+  let current = end;
+  while (current !== -1) {
+    order.unshift(current + 1);
+    const previous = parent[mask][current];
+    mask &= ~(1 << current);
+    current = previous;
+  }
+
+  return [0, ...order, last];
+};
+
+// Nearest-neighbour tour improved with 2-opt segment reversals
+const solveHeuristic = (costs: number[][]): number[] => {
+  const last = costs.length - 1;
+  const remaining = new Set(Array.from({ length: last - 1 }, (_, i) => i + 1));
+  const order = [0];
+
+  while (remaining.size > 0) {
+    const current = order[order.length - 1];
+    let next = -1;
+    remaining.forEach(candidate => {
+      if (next === -1 || costs[current][candidate] < costs[current][next]) next = candidate;
+    });
+    order.push(next);
+    remaining.delete(next);
+  }
+  order.push(last);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < last - 1; i++) {
+      for (let k = i + 1; k < last; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        if (orderCost(candidate, costs) < orderCost(order, costs)) {
+          order.splice(0, order.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// Best visiting order for the stops, keeping the first and last in place
+export const optimizeStopOrder = (stops: Room[], graph: CampusGraph, options: RouteOptions = {}): Room[] => {
+  if (stops.length < 4) return stops;
+
+  const costs = buildCostMatrix(stops, graph, options);
+  const order = stops.length - 2 <= EXACT_STOP_LIMIT ? solveExact(costs) : solveHeuristic(costs);
+
+  return order.map(index => stops[index]);
+};
+
+// Route through every stop in turn, one leg per consecutive pair
+export const planItinerary = (
+  stops: Room[],
+  graph: CampusGraph,
+  options: ItineraryOptions = {}
+): ItineraryPlan => {
+  const { optimize = false, ...routeOptions } = options;
+  const ordered = optimize ? optimizeStopOrder(stops, graph, routeOptions) : stops;
+
+  const legs: ItineraryLeg[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const from = ordered[i - 1];
+    const to = ordered[i];
+    const path = getShortestPath(from, to, graph, routeOptions);
+    legs.push({ from, to, path, distance: getRouteMetres(path) });
+  }
+
+  const complete = legs.length > 0 && legs.every(leg => leg.path.length > 1);
+  const path = complete
+    ? legs.reduce<Room[]>((joined, leg) => [...joined, ...(joined.length ? leg.path.slice(1) : leg.path)], [])
+    : [];
+
+  return {
+    stops: ordered,
+    legs,
+    path,
+    distance: legs.reduce((total, leg) => total + leg.distance, 0),
+  };
+};
+
+// Path indices where each intermediate stop is reached along `plan.path`
+export const getStopArrivalIndices = (legs: ItineraryLeg[]): number[] => {
+  const indices: number[] = [];
+  let legEnd = 0;
+  legs.slice(0, -1).forEach(leg => {
+    legEnd += leg.path.length - 1;
+    indices.push(legEnd);
+  });
+  return indices;
+};
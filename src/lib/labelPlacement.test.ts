@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { LabelCandidate, PlacedLabel, placeLabels } from "@/lib/labelPlacement";
+
+// A 20×10 label on the origin, 5 units clear of it
+const candidate = (item: string, overrides: Partial<LabelCandidate<string>> = {}): LabelCandidate<string> => ({
+  item,
+  x: 0,
+  y: 0,
+  width: 20,
+  height: 10,
+  clearance: 5,
+  priority: 1,
+  ...overrides,
+});
+
+const anchors = (placed: PlacedLabel<string>[]) =>
+  Object.fromEntries(placed.map(label => [label.item, label.anchor]));
+
+describe("placeLabels", () => {
+  it("puts a lone label above its point, clear of it", () => {
+    const [label] = placeLabels([candidate("a")]);
+
+    expect(label).toEqual({ item: "a", anchor: "above", x: 0, y: -10, width: 20, height: 10 });
+  });
+
+  it("moves later labels to the next free anchor", () => {
+    const placed = placeLabels([candidate("a"), candidate("b"), candidate("c")]);
+
+    expect(anchors(placed)).toEqual({ a: "above", b: "below", c: "right" });
+  });
+
+  it("places higher priority labels first whatever their order", () => {
+    const placed = placeLabels([candidate("low"), candidate("high", { priority: 5 })]);
+
+    expect(anchors(placed)).toEqual({ high: "above", low: "below" });
+    expect(placed[0].item).toBe("high");
+  });
+
+  it("keeps input order between equal priorities", () => {
+    const placed = placeLabels([candidate("first", { priority: 2 }), candidate("second", { priority: 2 })]);
+
+    expect(placed.map(label => label.item)).toEqual(["first", "second"]);
+  });
+
+  it("keeps labels off obstacles such as other markers", () => {
+    const placed = placeLabels([candidate("a")], [{ x: 0, y: -10, radius: 3 }]);
+
+    expect(anchors(placed)).toEqual({ a: "below" });
+  });
+
+  it("drops labels with no free anchor", () => {
+    const placed = placeLabels([
+      candidate("a", { anchors: ["above"] }),
+      candidate("b", { anchors: ["above"] }),
+    ]);
+
+    expect(placed.map(label => label.item)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,119 @@
+// Greedy label placement: labels are placed from highest priority down, each
+// at the first anchor around its point that overlaps nothing placed so far.
+// Labels with no free anchor are dropped. All sizes share one unit.
+
+export type LabelAnchor =
+  | "above"
+  | "below"
+  | "right"
+  | "left"
+  | "above-right"
+  | "above-left"
+  | "below-right"
+  | "below-left";
+
+// Preferred first: straight above reads most naturally under a map pin
+export const labelAnchors: LabelAnchor[] = [
+  "above",
+  "below",
+  "right",
+  "left",
+  "above-right",
+  "above-left",
+  "below-right",
+  "below-left",
+];
+
+export interface LabelBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Something labels must not cover, such as a marker
+export interface LabelObstacle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface LabelCandidate<T> {
+  item: T;
+  x: number; // Point being labelled
+  y: number;
+  width: number;
+  height: number;
+  clearance: number; // Gap kept between the point and the label
+  priority: number; // Higher is placed first
+  anchors?: LabelAnchor[];
+}
+
+export interface PlacedLabel<T> {
+  item: T;
+  anchor: LabelAnchor;
+  x: number; // Centre of the label box
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Diagonal anchors sit on the 45° line so the box corner just clears the point
+const DIAGONAL = Math.SQRT1_2;
+
+const anchorOffsets: Record<LabelAnchor, (c: number, w: number, h: number) => [number, number]> = {
+  above: (c, w, h) => [0, -(c + h / 2)],
+  below: (c, w, h) => [0, c + h / 2],
+  right: (c, w, h) => [c + w / 2, 0],
+  left: (c, w, h) => [-(c + w / 2), 0],
+  "above-right": (c, w, h) => [c * DIAGONAL + w / 2, -(c * DIAGONAL + h / 2)],
+  "above-left": (c, w, h) => [-(c * DIAGONAL + w / 2), -(c * DIAGONAL + h / 2)],
+  "below-right": (c, w, h) => [c * DIAGONAL + w / 2, c * DIAGONAL + h / 2],
+  "below-left": (c, w, h) => [-(c * DIAGONAL + w / 2), c * DIAGONAL + h / 2],
+};
+
+const toBox = (x: number, y: number, width: number, height: number): LabelBox => ({
+  left: x - width / 2,
+  top: y - height / 2,
+  right: x + width / 2,
+  bottom: y + height / 2,
+});
+
+const boxesOverlap = (a: LabelBox, b: LabelBox): boolean =>
+  a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+const boxHitsCircle = (box: LabelBox, circle: LabelObstacle): boolean => {
+  const nearestX = Math.min(Math.max(circle.x, box.left), box.right);
+  const nearestY = Math.min(Math.max(circle.y, box.top), box.bottom);
+  return Math.pow(circle.x - nearestX, 2) + Math.pow(circle.y - nearestY, 2) < Math.pow(circle.radius, 2);
+};
+
+export const placeLabels = <T>(
+  candidates: readonly LabelCandidate<T>[],
+  obstacles: readonly LabelObstacle[] = []
+): PlacedLabel<T>[] => {
+  const placed: PlacedLabel<T>[] = [];
+  const taken: LabelBox[] = [];
+
+  // Stable sort keeps input order between equal priorities
+  const ordered = candidates.map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.priority - a.candidate.priority || a.index - b.index);
+
+  ordered.forEach(({ candidate }) => {
+    const { x, y, width, height, clearance } = candidate;
+
+    for (const anchor of candidate.anchors ?? labelAnchors) {
+      const [dx, dy] = anchorOffsets[anchor](clearance, width, height);
+      const box = toBox(x + dx, y + dy, width, height);
+      if (taken.some(other => boxesOverlap(box, other)) || obstacles.some(obstacle => boxHitsCircle(box, obstacle))) {
+        continue;
+      }
+
+      taken.push(box);
+      placed.push({ item: candidate.item, anchor, x: x + dx, y: y + dy, width, height });
+      return;
+    }
+  });
+
+  return placed;
+};
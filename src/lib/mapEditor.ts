@@ -0,0 +1,167 @@
+import { Room } from "@/lib/pathfinding";
+import { isFloorConnector } from "@/lib/graph";
+
+// Raw room list being edited, with undo/redo snapshots
+export interface EditorState {
+  rooms: Room[];
+  past: Room[][];
+  future: Room[][];
+}
+
+export type EditorAction =
+  | { type: "add"; room: Room }
+  | { type: "delete"; id: string }
+  | { type: "update"; id: string; changes: Partial<Room> }
+  | { type: "checkpoint" } // Snapshot before a drag so the whole drag undoes in one step
+  | { type: "move"; id: string; x: number; y: number } // Live drag update, not recorded
+  | { type: "connect"; from: string; to: string }
+  | { type: "disconnect"; from: string; to: string }
+  | { type: "load"; rooms: Room[] }
+  | { type: "undo" }
+  | { type: "redo" };
+
+// Keep memory bounded on long editing sessions
+const HISTORY_LIMIT = 100;
+
+export const createEditorState = (rooms: readonly Room[]): EditorState => {
+  return { rooms: rooms.map(cloneRoom), past: [], future: [] };
+};
+
+const cloneRoom = (room: Room): Room => ({
+  ...room,
+  connections: [...room.connections],
+  aliases: room.aliases ? [...room.aliases] : undefined,
+  connectionAccess: room.connectionAccess ? { ...room.connectionAccess } : undefined,
+  footprint: room.footprint?.map(point => ({ ...point })),
+  doors: room.doors?.map(point => ({ ...point })),
+});
+
+// The outline and doors travel with the room's marker
+const moveRoom = (room: Room, x: number, y: number): Room => {
+  const dx = x - room.x;
+  const dy = y - room.y;
+  const shift = (points?: Room["footprint"]) => points?.map(point => ({ x: point.x + dx, y: point.y + dy }));
+
+  return { ...room, x, y, footprint: shift(room.footprint), doors: shift(room.doors) };
+};
+
+// Connections are stored on one side but count both ways, like the graph builder treats them
+export const areConnected = (a: Room, b: Room): boolean => {
+  return a.connections.includes(b.id) || b.connections.includes(a.id);
+};
+
+// Different floors may only be linked through stairs or lifts
+export const canConnect = (a: Room, b: Room): boolean => {
+  if (a.id === b.id) return false;
+  return a.floor === b.floor || (isFloorConnector(a) && isFloorConnector(b));
+};
+
+// First free id of the form `${prefix}-${n}`
+export const createRoomId = (rooms: readonly Room[], prefix: string): string => {
+  const ids = new Set(rooms.map(room => room.id));
+  let n = 1;
+  while (ids.has(`${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+};
+
+const withoutLink = (room: Room, otherId: string): Room => {
+  if (!room.connections.includes(otherId) && !room.connectionAccess?.[otherId]) return room;
+
+  const connectionAccess = room.connectionAccess ? { ...room.connectionAccess } : undefined;
+  if (connectionAccess) delete connectionAccess[otherId];
+
+  return { ...room, connections: room.connections.filter(id => id !== otherId), connectionAccess };
+};
+
+// Renaming an id has to follow every connection that points at it
+const renameReferences = (room: Room, oldId: string, newId: string): Room => {
+  if (!room.connections.includes(oldId) && !room.connectionAccess?.[oldId]) return room;
+
+  const connectionAccess = room.connectionAccess ? { ...room.connectionAccess } : undefined;
+  if (connectionAccess?.[oldId]) {
+    connectionAccess[newId] = connectionAccess[oldId];
+    delete connectionAccess[oldId];
+  }
+
+  return {
+    ...room,
+    connections: room.connections.map(id => (id === oldId ? newId : id)),
+    connectionAccess,
+  };
+};
+
+const applyEdit = (rooms: Room[], action: EditorAction): Room[] => {
+  switch (action.type) {
+    case "add":
+      return [...rooms, action.room];
+
+    case "delete":
+      return rooms.filter(room => room.id !== action.id).map(room => withoutLink(room, action.id));
+
+    case "update": {
+      const { id, changes } = action;
+      const newId = changes.id;
+      if (newId && newId !== id && rooms.some(room => room.id === newId)) return rooms;
+
+      return rooms.map(room => {
+        if (room.id !== id) return newId && newId !== id ? renameReferences(room, id, newId) : room;
+
+        const changed = { ...room, ...changes, x: room.x, y: room.y };
+        const updated = moveRoom(changed, changes.x ?? room.x, changes.y ?? room.y);
+        return newId && newId !== id ? renameReferences(updated, id, newId) : updated;
+      });
+    }
+
+    case "move":
+      return rooms.map(room => (room.id === action.id ? moveRoom(room, action.x, action.y) : room));
+
+    case "connect": {
+      const from = rooms.find(room => room.id === action.from);
+      const to = rooms.find(room => room.id === action.to);
+      if (!from || !to || !canConnect(from, to) || areConnected(from, to)) return rooms;
+
+      return rooms.map(room => (room.id === from.id ? { ...room, connections: [...room.connections, to.id] } : room));
+    }
+
+    case "disconnect":
+      return rooms.map(room => {
+        if (room.id === action.from) return withoutLink(room, action.to);
+        if (room.id === action.to) return withoutLink(room, action.from);
+        return room;
+      });
+
+    case "load":
+      return action.rooms.map(cloneRoom);
+
+    default:
+      return rooms;
+  }
+};
+
+export const editorReducer = (state: EditorState, action: EditorAction): EditorState => {
+  switch (action.type) {
+    case "undo": {
+      if (state.past.length === 0) return state;
+      const previous = state.past[state.past.length - 1];
+      return { rooms: previous, past: state.past.slice(0, -1), future: [state.rooms, ...state.future] };
+    }
+
+    case "redo": {
+      if (state.future.length === 0) return state;
+      const [next, ...future] = state.future;
+      return { rooms: next, past: [...state.past, state.rooms], future };
+    }
+
+    case "checkpoint":
+      return { rooms: state.rooms, past: [...state.past, state.rooms].slice(-HISTORY_LIMIT), future: [] };
+
+    case "move":
+      return { ...state, rooms: applyEdit(state.rooms, action) };
+
+    default: {
+      const rooms = applyEdit(state.rooms, action);
+      if (rooms === state.rooms) return state;
+      return { rooms, past: [...state.past, state.rooms].slice(-HISTORY_LIMIT), future: [] };
+    }
+  }
+};
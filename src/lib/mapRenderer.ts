@@ -0,0 +1,580 @@
+import { Room } from "@/lib/pathfinding";
+import { Instruction } from "@/lib/instructions";
+import { GraphEdge } from "@/lib/graph";
+import { RoutePoint, RouteTrack, TrackPosition, getSegmentCorners } from "@/lib/routeGeometry";
+import { MapPoint } from "@/lib/geometry";
+import { LabelCandidate, placeLabels } from "@/lib/labelPlacement";
+import { categoryInfo, getRoomCategory } from "@/lib/categories";
+import { Floor } from "@/data/floorData";
+
+// The map is drawn as stacked canvases, bottom to top, so a change only
+// repaints its own layer: hovering touches "interaction", playback "route"
+export type MapLayer = "blueprint" | "graph" | "route" | "markers" | "interaction";
+
+export const mapLayers: MapLayer[] = ["blueprint", "graph", "route", "markers", "interaction"];
+
+// "svg" draws rooms, the route and labels as DOM elements instead: focusable,
+// styleable and crisp in print. Visitors switch with the map controls; this
+// build-time default applies until they do.
+export type MapRenderMode = "canvas" | "svg";
+
+export const DEFAULT_RENDER_MODE: MapRenderMode = import.meta.env.VITE_MAP_RENDERER === "svg" ? "svg" : "canvas";
+
+// Where a layer is drawn: the viewport plus the CSS size and pixel ratio of the canvas
+export interface LayerView {
+  x: number;
+  y: number;
+  scale: number;
+  width: number;
+  height: number;
+  dpr: number;
+}
+
+// Who a marker belongs to on the current route
+export interface RouteRoles {
+  selectedStart: Room | null;
+  selectedDestination: Room | null;
+  stops: Room[];
+  path: Room[];
+}
+
+export interface GraphLayerScene {
+  rooms: Room[]; // Rooms on the active floor
+  edges: readonly GraphEdge[];
+  level: number;
+  hidden: ReadonlySet<string>; // Rooms the category filter hides
+  selectedStart: Room | null;
+  selectedDestination: Room | null;
+}
+
+export interface RouteLayerScene {
+  path: Room[];
+  level: number;
+  floors: Floor[];
+  navigationStep: Instruction | null;
+  track: RouteTrack;
+  walker: TrackPosition | null;
+  playbackDistance: number;
+}
+
+export interface MarkersLayerScene extends RouteRoles {
+  rooms: Room[];
+  hidden: ReadonlySet<string>;
+  labels: RoomLabel[]; // From layoutRoomLabels at the current zoom
+}
+
+export interface InteractionLayerScene extends RouteRoles {
+  level: number;
+  scale: number;
+  hoveredRoom: Room | null;
+  walker: TrackPosition | null;
+  userPosition: MapPoint | null;
+}
+
+// Each blueprint is fetched and decoded once per session
+const blueprintCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadBlueprint = (src: string): Promise<HTMLImageElement> => {
+  const cached = blueprintCache.get(src);
+  if (cached) return cached;
+
+  const loading = new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      blueprintCache.delete(src); // Let a later attempt retry
+      reject(new Error(`Could not load ${src}`));
+    };
+    image.src = src;
+  });
+  blueprintCache.set(src, loading);
+  return loading;
+};
+
+// Size the canvas for the screen, clear it, and map blueprint pixels onto it
+export const prepareLayer = (canvas: HTMLCanvasElement | null, view: LayerView): CanvasRenderingContext2D | null => {
+  if (!canvas || !view.width || !view.height) return null;
+
+  const width = Math.round(view.width * view.dpr);
+  const height = Math.round(view.height * view.dpr);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  const scale = view.scale * view.dpr;
+  ctx.setTransform(scale, 0, 0, scale, view.x * view.dpr, view.y * view.dpr);
+  return ctx;
+};
+
+export const drawBlueprintLayer = (ctx: CanvasRenderingContext2D, image: HTMLImageElement) => {
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, 0, 0, image.naturalWidth, image.naturalHeight);
+};
+
+const traceFootprint = (ctx: CanvasRenderingContext2D, footprint: MapPoint[]) => {
+  ctx.beginPath();
+  footprint.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+};
+
+const drawFootprint = (ctx: CanvasRenderingContext2D, room: Room, isHighlighted: boolean) => {
+  const color = categoryInfo[getRoomCategory(room)].color;
+
+  traceFootprint(ctx, room.footprint);
+  ctx.globalAlpha = isHighlighted ? 0.35 : 0.15;
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = isHighlighted ? 3 : 1.5;
+  ctx.stroke();
+
+  // Doors as small rings on the outline
+  room.doors?.forEach((door) => {
+    ctx.beginPath();
+    ctx.fillStyle = "#ffffff";
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.arc(door.x, door.y, 4, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+  });
+};
+
+// Footprints, waypoints and the connections between rooms
+export const drawGraphLayer = (ctx: CanvasRenderingContext2D, scene: GraphLayerScene) => {
+  const { rooms, edges, level, hidden, selectedStart, selectedDestination } = scene;
+
+  // Room footprints tinted by category; route ends stand out
+  rooms.forEach((room) => {
+    if (!room.footprint || hidden.has(room.id)) return;
+    drawFootprint(ctx, room, selectedStart?.id === room.id || selectedDestination?.id === room.id);
+  });
+
+  // Waypoints as small dots
+  rooms.forEach((room) => {
+    if (room.type === "waypoint") {
+      ctx.beginPath();
+      ctx.fillStyle = "rgba(107, 114, 128, 0.3)";
+      ctx.arc(room.x, room.y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  });
+
+  edges.forEach(({ from, to }) => {
+    if (from.floor !== level || to.floor !== level) return;
+
+    ctx.beginPath();
+    ctx.strokeStyle = "rgba(107, 114, 128, 0.15)";
+    ctx.lineWidth = 1;
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  });
+};
+
+// Where the route leaves or joins this floor via stairs or a lift
+export const getFloorChangeLabels = (path: Room[], level: number, floors: Floor[]): { room: Room; text: string }[] => {
+  const labels: { room: Room; text: string }[] = [];
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const current = path[i];
+    const next = path[i + 1];
+    if (current.floor === next.floor) continue;
+
+    const here = current.floor === level ? current : next.floor === level ? next : null;
+    if (!here) continue;
+
+    const other = here === current ? next : current;
+    const floorName = floors.find(f => f.level === other.floor)?.name ?? `Level ${other.floor}`;
+    labels.push({
+      room: here,
+      text: here === current ? `${other.floor > here.floor ? "Up" : "Down"} to ${floorName}` : `From ${floorName}`,
+    });
+  }
+
+  return labels;
+};
+
+// Route segments [from, to) on one floor as runs of corner points; diagonal hops become an L-shape
+export const getPathRuns = (path: Room[], from: number, to: number, level: number): MapPoint[][] => {
+  const runs: MapPoint[][] = [];
+
+  for (let i = from; i < to; i++) {
+    const start = path[i];
+    const end = path[i + 1];
+
+    // Only segments that lie entirely on the visible floor are drawn
+    if (start.floor !== level || end.floor !== level) continue;
+    runs.push([start, ...getSegmentCorners(start, end)]);
+  }
+
+  return runs;
+};
+
+// Playback track split at the floors it leaves, as runs of points on this floor
+export const getTrackRuns = (points: RoutePoint[], level: number): MapPoint[][] => {
+  const runs: MapPoint[][] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a.floor !== level || b.floor !== level) continue;
+    runs.push([a, b]);
+  }
+
+  return runs;
+};
+
+// The route line, step-through highlighting, playback dashes and floor changes
+export const drawRouteLayer = (ctx: CanvasRenderingContext2D, scene: RouteLayerScene) => {
+  const { path, level, floors, navigationStep, track, walker, playbackDistance } = scene;
+
+  if (path.length > 1) {
+    const traceRuns = (runs: MapPoint[][]) => {
+      ctx.beginPath();
+      runs.forEach(run => run.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y))));
+      ctx.stroke();
+    };
+    const tracePath = (from: number, to: number) => traceRuns(getPathRuns(path, from, to, level));
+
+    const lastSegment = path.length - 1;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    // Wide halo
+    ctx.strokeStyle = "rgba(59, 130, 246, 0.4)";
+    ctx.lineWidth = 16;
+    tracePath(0, lastSegment);
+
+    // Thinner line on top
+    ctx.strokeStyle = "#3b82f6";
+    ctx.lineWidth = 8;
+
+    if (navigationStep) {
+      // Step-through: completed segments greyed out, the active step highlighted
+      tracePath(navigationStep.endIndex, lastSegment);
+
+      ctx.strokeStyle = "#9ca3af";
+      tracePath(0, navigationStep.startIndex);
+
+      ctx.strokeStyle = "#f59e0b";
+      ctx.lineWidth = 10;
+      tracePath(navigationStep.startIndex, navigationStep.endIndex);
+    } else if (walker) {
+      // Playback: solid behind the walker, marching dashes ahead of it
+      const traceTrack = (points: RoutePoint[]) => traceRuns(getTrackRuns(points, level));
+
+      traceTrack([...track.points.slice(0, walker.index + 1), walker]);
+
+      ctx.setLineDash([14, 10]);
+      ctx.lineDashOffset = -playbackDistance;
+      traceTrack([walker, ...track.points.slice(walker.index + 1)]);
+      ctx.setLineDash([]);
+    } else {
+      tracePath(0, lastSegment);
+    }
+  }
+
+  getFloorChangeLabels(path, level, floors).forEach(({ room, text }) => {
+    ctx.font = "bold 14px Arial";
+    const textWidth = ctx.measureText(text).width;
+
+    ctx.fillStyle = "rgba(139, 92, 246, 0.9)";
+    ctx.fillRect(room.x - textWidth/2 - 6, room.y + 16, textWidth + 12, 22);
+
+    ctx.fillStyle = "#ffffff";
+    ctx.textAlign = "center";
+    ctx.fillText(text, room.x, room.y + 32);
+  });
+};
+
+export interface MarkerStyle {
+  fill: string;
+  opacity: number;
+  radius: number;
+  centreRadius: number | null; // White centre dot; null when the glyph is shown instead
+  glyph?: string;
+  tag?: { text: string; color: string; fontSize: number }; // START, DESTINATION or STOP n, instead of the name
+  label: "route" | "landmark" | "room"; // How important the name label is
+}
+
+// How a room's marker looks given its part in the current route
+export const getMarkerStyle = (room: Room, roles: RouteRoles, isHovered: boolean): MarkerStyle => {
+  const category = categoryInfo[getRoomCategory(room)];
+  const isStart = roles.selectedStart?.id === room.id;
+  const isDestination = roles.selectedDestination?.id === room.id;
+  const stopNumber = roles.stops.findIndex(stop => stop.id === room.id) + 1;
+  const isOnPath = roles.path.some((pathRoom) => pathRoom.id === room.id);
+  const isLandmark = room.type === "entrance" || room.type === "stairs";
+
+  if (isStart || isDestination) {
+    const color = isStart ? "#3b82f6" : "#ef4444";
+    return {
+      fill: color,
+      opacity: 1,
+      radius: isHovered ? 14 : 12,
+      centreRadius: 6,
+      tag: { text: isStart ? "START" : "DESTINATION", color, fontSize: 18 },
+      label: "route",
+    };
+  }
+  if (stopNumber > 0) {
+    // Itinerary stops are numbered in visiting order
+    return {
+      fill: "#f59e0b",
+      opacity: 1,
+      radius: isHovered ? 14 : 12,
+      centreRadius: 6,
+      tag: { text: `STOP ${stopNumber}`, color: "#f59e0b", fontSize: 16 },
+      label: "route",
+    };
+  }
+  if (isOnPath) {
+    return {
+      fill: isHovered ? "#a855f7" : "#8b5cf6",
+      opacity: 1,
+      radius: isHovered ? 12 : 10,
+      centreRadius: 4,
+      label: room.type === "room" || isLandmark ? "route" : "room",
+    };
+  }
+
+  // Regular rooms are coloured by category and show its glyph
+  return {
+    fill: category.color,
+    opacity: isHovered ? 1 : 0.85,
+    radius: isHovered ? 11 : 9,
+    centreRadius: category.glyph ? null : 3,
+    glyph: category.glyph,
+    label: isLandmark ? "landmark" : "room",
+  };
+};
+
+export type LabelKind = "tag" | "route" | "landmark" | "room" | "hover";
+
+// Labels keep their screen size at any zoom, so zooming in makes room for more
+// of them. Sizes are screen pixels; below minScale a kind is not shown at all.
+const labelKinds: Record<LabelKind, { fontSize: number; bold: boolean; padding: number; background: string | null; priority: number; minScale: number }> = {
+  hover: { fontSize: 16, bold: true, padding: 4, background: "rgba(255, 255, 255, 0.9)", priority: 5, minScale: 0 },
+  tag: { fontSize: 16, bold: true, padding: 2, background: null, priority: 4, minScale: 0 },
+  route: { fontSize: 14, bold: true, padding: 4, background: "rgba(255, 255, 255, 0.8)", priority: 3, minScale: 0 },
+  landmark: { fontSize: 12, bold: false, padding: 3, background: "rgba(255, 255, 255, 0.6)", priority: 2, minScale: 0.75 },
+  room: { fontSize: 11, bold: false, padding: 3, background: "rgba(255, 255, 255, 0.6)", priority: 1, minScale: 1.5 },
+};
+
+const LABEL_GAP = 4; // Screen pixels between a marker and its label
+
+// A placed label; position and sizes are in map pixels for the zoom it was laid out at
+export interface RoomLabel {
+  room: Room;
+  text: string;
+  kind: LabelKind;
+  color: string;
+  background: string | null;
+  fontSize: number;
+  bold: boolean;
+  x: number; // Centre of the label box
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const toLabelFont = (label: Pick<RoomLabel, "fontSize" | "bold">) =>
+  `${label.bold ? "bold " : ""}${label.fontSize}px Arial`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureTextWidth = (text: string, font: string): number => {
+  if (!measureContext) measureContext = document.createElement("canvas").getContext("2d");
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Label and placement candidate for a room, with its box at the room until placed
+const createLabelCandidate = (room: Room, roles: RouteRoles, scale: number, kind: LabelKind, isHovered = false): LabelCandidate<RoomLabel> => {
+  const marker = getMarkerStyle(room, roles, isHovered);
+  const look = labelKinds[kind];
+  const tag = kind === "tag" ? marker.tag : undefined;
+  const fontSize = (tag?.fontSize ?? look.fontSize) / scale;
+  const text = tag?.text ?? room.name;
+  const padding = look.padding / scale;
+
+  const label: RoomLabel = {
+    room,
+    text,
+    kind,
+    color: tag?.color ?? "#000000",
+    background: look.background,
+    fontSize,
+    bold: look.bold,
+    x: room.x,
+    y: room.y,
+    width: measureTextWidth(text, toLabelFont({ fontSize, bold: look.bold })) + padding * 2,
+    height: fontSize + padding * 2,
+  };
+
+  return {
+    item: label,
+    x: room.x,
+    y: room.y,
+    width: label.width,
+    height: label.height,
+    clearance: marker.radius + LABEL_GAP / scale,
+    priority: look.priority,
+  };
+};
+
+// Names and tags for the visible markers: more important ones first, each moved
+// around its marker to dodge the others, and dropped if it can't fit anywhere
+export const layoutRoomLabels = (scene: Omit<MarkersLayerScene, "labels">, scale: number): RoomLabel[] => {
+  const visible = scene.rooms.filter(room => room.type !== "waypoint" && !scene.hidden.has(room.id));
+  const markers = visible.map(room => ({ x: room.x, y: room.y, radius: getMarkerStyle(room, scene, false).radius }));
+
+  const candidates = visible.flatMap(room => {
+    const { tag, label } = getMarkerStyle(room, scene, false);
+    const kind: LabelKind = tag ? "tag" : label;
+    if (scale < labelKinds[kind].minScale || !(tag || room.name)) return [];
+    return [createLabelCandidate(room, scene, scale, kind)];
+  });
+
+  return placeLabels(candidates, markers).map(({ item, x, y }) => ({ ...item, x, y }));
+};
+
+// The hovered room's name, always straight above its (enlarged) marker
+export const layoutHoverLabel = (room: Room, roles: RouteRoles, scale: number): RoomLabel => {
+  const candidate = createLabelCandidate(room, roles, scale, "hover", true);
+  const [placed] = placeLabels([{ ...candidate, anchors: ["above"] }]);
+  return { ...placed.item, x: placed.x, y: placed.y };
+};
+
+const drawRoomLabel = (ctx: CanvasRenderingContext2D, label: RoomLabel) => {
+  if (label.background) {
+    ctx.fillStyle = label.background;
+    ctx.fillRect(label.x - label.width / 2, label.y - label.height / 2, label.width, label.height);
+  }
+
+  ctx.font = toLabelFont(label);
+  ctx.fillStyle = label.color;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label.text, label.x, label.y);
+  ctx.textBaseline = "alphabetic";
+};
+
+// A room's dot and its white centre or glyph
+const drawMarker = (ctx: CanvasRenderingContext2D, room: Room, roles: RouteRoles, isHovered: boolean) => {
+  const style = getMarkerStyle(room, roles, isHovered);
+
+  ctx.beginPath();
+  ctx.fillStyle = style.fill;
+  ctx.globalAlpha = style.opacity;
+  ctx.arc(room.x, room.y, style.radius, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = "#ffffff";
+  if (style.centreRadius !== null) {
+    ctx.beginPath();
+    ctx.arc(room.x, room.y, style.centreRadius, 0, 2 * Math.PI);
+    ctx.fill();
+  } else {
+    ctx.font = `bold ${style.glyph.length > 1 ? 7 : 9}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(style.glyph, room.x, room.y + 0.5);
+    ctx.textBaseline = "alphabetic";
+  }
+};
+
+// Room markers, then the labels placed around them
+export const drawMarkersLayer = (ctx: CanvasRenderingContext2D, scene: MarkersLayerScene) => {
+  scene.rooms.forEach((room) => {
+    if (room.type === "waypoint" || scene.hidden.has(room.id)) return;
+    drawMarker(ctx, room, scene, false);
+  });
+
+  scene.labels.forEach(label => drawRoomLabel(ctx, label));
+};
+
+// Hover highlight, the playback walker and the "You are here" marker
+export const drawInteractionLayer = (ctx: CanvasRenderingContext2D, scene: InteractionLayerScene) => {
+  const { hoveredRoom, walker, userPosition, level, selectedStart, selectedDestination } = scene;
+
+  if (hoveredRoom && hoveredRoom.floor === level) {
+    if (hoveredRoom.footprint) drawFootprint(ctx, hoveredRoom, true);
+    drawMarker(ctx, hoveredRoom, scene, true);
+
+    if (hoveredRoom.name) {
+      drawRoomLabel(ctx, layoutHoverLabel(hoveredRoom, scene, scene.scale));
+    }
+  }
+
+  // Playback walker, with an arrow showing which way it is heading
+  if (walker && walker.floor === level) {
+    ctx.beginPath();
+    ctx.fillStyle = "rgba(16, 185, 129, 0.3)";
+    ctx.arc(walker.x, walker.y, 18, 0, 2 * Math.PI);
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.fillStyle = "#10b981";
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 2;
+    ctx.arc(walker.x, walker.y, 11, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.save();
+    ctx.translate(walker.x, walker.y);
+    ctx.rotate(walker.heading);
+    ctx.beginPath();
+    ctx.fillStyle = "#ffffff";
+    ctx.moveTo(6, 0);
+    ctx.lineTo(-4, -5);
+    ctx.lineTo(-4, 5);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  if (userPosition) {
+    ctx.beginPath();
+    ctx.fillStyle = "rgba(249, 115, 22, 0.3)";
+    ctx.arc(userPosition.x, userPosition.y, 15, 0, 2 * Math.PI);
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.fillStyle = "#f97316";
+    ctx.arc(userPosition.x, userPosition.y, 10, 0, 2 * Math.PI);
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.fillStyle = "#ffffff";
+    ctx.arc(userPosition.x, userPosition.y, 5, 0, 2 * Math.PI);
+    ctx.fill();
+
+    const isNear = (room: Room | null) =>
+      room && Math.abs(userPosition.x - room.x) < 10 && Math.abs(userPosition.y - room.y) < 10;
+
+    if (!isNear(selectedStart) && !isNear(selectedDestination)) {
+      const youAreHereText = "You are here";
+      ctx.font = "bold 14px Arial";
+
+      const textWidth = ctx.measureText(youAreHereText).width;
+
+      ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+      ctx.fillRect(userPosition.x - textWidth/2 - 5, userPosition.y - 35, textWidth + 10, 22);
+
+      ctx.fillStyle = "#000000";
+      ctx.textAlign = "center";
+      ctx.fillText(youAreHereText, userPosition.x, userPosition.y - 20);
+    }
+  }
+};
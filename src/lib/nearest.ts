@@ -0,0 +1,35 @@
+import { DoorOpen, Footprints, LucideIcon, Toilet, UtensilsCrossed } from "lucide-react";
+import { Room } from "@/lib/pathfinding";
+import { getRoomCategory } from "@/lib/categories";
+
+export type NearestQuery = "restroom" | "exit" | "stairs" | "pantry";
+
+export interface NearestQueryInfo {
+  label: string;
+  icon: LucideIcon;
+  matches: (room: Room) => boolean;
+}
+
+// "Nearest X" shortcuts offered in the sidebar
+export const nearestQueries: Record<NearestQuery, NearestQueryInfo> = {
+  restroom: {
+    label: "Restroom",
+    icon: Toilet,
+    matches: room => getRoomCategory(room) === "restroom",
+  },
+  exit: {
+    label: "Exit",
+    icon: DoorOpen,
+    matches: room => getRoomCategory(room) === "emergency",
+  },
+  stairs: {
+    label: "Stairs / Lift",
+    icon: Footprints,
+    matches: room => room.type === "stairs" || room.type === "lift",
+  },
+  pantry: {
+    label: "Pantry",
+    icon: UtensilsCrossed,
+    matches: room => getRoomCategory(room) === "food",
+  },
+};
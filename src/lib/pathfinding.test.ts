@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Room, findPathAStar, getShortestPath, searchPath } from "@/lib/pathfinding";
+import { buildGraph } from "@/lib/graph";
+
+const waypoint = (id: string, x: number, y: number, connections: string[]): Room => ({
+  id,
+  name: "",
+  x,
+  y,
+  floor: 1,
+  building: "main",
+  type: "waypoint",
+  connections,
+});
+
+// Two ways from a to d: straight along the top, or the longer dip through c.
+// e is on its own.
+const graph = buildGraph([
+  waypoint("a", 0, 0, ["b", "c"]),
+  waypoint("b", 100, 0, ["d"]),
+  waypoint("c", 100, 150, ["d"]),
+  waypoint("d", 200, 0, []),
+  waypoint("e", 400, 400, []),
+]);
+
+const ids = (path: Room[] | null) => path?.map(room => room.id);
+
+describe("searchPath", () => {
+  it("finds the shortest route with every heuristic that never overestimates", () => {
+    expect(ids(searchPath(graph, "a", "d"))).toEqual(["a", "b", "d"]);
+    expect(ids(getShortestPath(graph.roomsById.get("a")!, graph.roomsById.get("d")!, graph))).toEqual(["a", "b", "d"]);
+  });
+
+  it("walks connections in both directions", () => {
+    expect(ids(searchPath(graph, "d", "a"))).toEqual(["d", "b", "a"]);
+  });
+
+  it("returns a single-room path when start and end match", () => {
+    expect(ids(searchPath(graph, "c", "c"))).toEqual(["c"]);
+  });
+
+  it("returns null for unknown or unreachable rooms", () => {
+    expect(searchPath(graph, "a", "e")).toBeNull();
+    expect(searchPath(graph, "a", "missing")).toBeNull();
+  });
+});
+
+describe("findPathAStar", () => {
+  it("matches the Dijkstra route on the default heuristic", () => {
+    const start = graph.roomsById.get("a")!;
+    const end = graph.roomsById.get("d")!;
+
+    expect(ids(findPathAStar(start, end, graph))).toEqual(ids(getShortestPath(start, end, graph)));
+  });
+
+  it("takes the detour when the direct corridor is gone", () => {
+    const blocked = buildGraph([
+      waypoint("a", 0, 0, ["c"]),
+      waypoint("b", 100, 0, []),
+      waypoint("c", 100, 150, ["d"]),
+      waypoint("d", 200, 0, []),
+    ]);
+
+    expect(ids(findPathAStar(blocked.roomsById.get("a")!, blocked.roomsById.get("d")!, blocked))).toEqual(["a", "c", "d"]);
+  });
+});
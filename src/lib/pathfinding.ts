@@ -1,23 +1,44 @@
+import { MinHeap } from "@/lib/priorityQueue";
+import { RoomCategory } from "@/lib/categories";
+import { MapPoint, getBoundaryCrossings, getPointDistance, segmentEntersPolygon } from "@/lib/geometry";
+import {
+  CampusGraph,
+  FLOOR_CHANGE_COST,
+  calculateDistance,
+  getNeighbors,
+  isStepFree,
+} from "@/lib/graph";
+
+// Physical features that matter for step-free routing
+export type AccessFeature = "stairs" | "steps" | "ramp" | "lift";
+
 export interface Room {
   id: string;
   name: string;
   x: number;
   y: number;
+  floor: number; // Level the node sits on (1 = ground floor)
+  building: string; // ID of the block the node belongs to
   connections: string[]; // IDs of connected rooms/waypoints
-  type: "room" | "waypoint" | "entrance" | "stairs";
+  type: "room" | "waypoint" | "entrance" | "stairs" | "lift";
+  aliases?: string[]; // Other names, abbreviations and keywords people search for
+  category?: RoomCategory; // What the place is used for; inferred from type when omitted
+  access?: AccessFeature; // Feature at this node; stairs and lift nodes default to their type
+  connectionAccess?: Record<string, AccessFeature>; // Feature on the connection to a given neighbour
+  footprint?: MapPoint[]; // Outline of the room on the blueprint, clockwise or not
+  doors?: MapPoint[]; // Openings on the footprint outline
 }
 
-// Calculate Euclidean distance between two rooms
-const calculateDistance = (room1: Room, room2: Room): number => {
-  return Math.sqrt(Math.pow(room1.x - room2.x, 2) + Math.pow(room1.y - room2.y, 2));
-};
+export interface RouteOptions {
+  accessible?: boolean; // Only use step-free connections (level, ramps and lifts)
+}
 
 // Calculate Manhattan distance (only horizontal and vertical movement)
 const calculateManhattanDistance = (room1: Room, room2: Room): number => {
   return Math.abs(room1.x - room2.x) + Math.abs(room1.y - room2.y);
 };
 
-// Check if a line between two points passes through a room
+// Check if a line between two points passes through a room that has no footprint
 const linePassesThroughRoom = (
   x1: number, y1: number,
   x2: number, y2: number,
@@ -35,13 +56,31 @@ const linePassesThroughRoom = (
   return distance < roomRadius;
 };
 
+// How far from a marked door a route may cross a room outline
+const DOOR_TOLERANCE = 12;
+
+// Whether the segment a→b is blocked by a room. A room the segment starts or
+// ends in only blocks it when it leaves through a wall rather than a door;
+// any other room blocks it by being in the way.
+const isSegmentBlockedByRoom = (a: Room, b: Room, room: Room): boolean => {
+  if (room.id === a.id || room.id === b.id) {
+    if (!room.footprint || !room.doors?.length) return false;
+    return getBoundaryCrossings(a, b, room.footprint).some(crossing =>
+      room.doors.every(door => getPointDistance(crossing, door) > DOOR_TOLERANCE)
+    );
+  }
+
+  if (room.footprint) return segmentEntersPolygon(a, b, room.footprint);
+  return linePassesThroughRoom(a.x, a.y, b.x, b.y, room.x, room.y);
+};
+
 // Check if path is obstructed by rooms
-const isPathObstructed = (start: Room, end: Room, allRooms: Room[]): boolean => {
+const isPathObstructed = (start: Room, end: Room, allRooms: readonly Room[]): boolean => {
   for (const room of allRooms) {
-    // Skip checking the start and end rooms
-    if (room.id === start.id || room.id === end.id || room.type === "waypoint") continue;
+    if (room.type === "waypoint") continue;
+    if (room.floor !== start.floor) continue;
     
-    if (linePassesThroughRoom(start.x, start.y, end.x, end.y, room.x, room.y)) {
+    if (isSegmentBlockedByRoom(start, end, room)) {
       return true;
     }
   }
@@ -49,90 +88,193 @@ const isPathObstructed = (start: Room, end: Room, allRooms: Room[]): boolean =>
   return false;
 };
 
-// Dijkstra's algorithm for finding shortest path
-export const getShortestPath = (start: Room, end: Room, allRooms: Room[] = []): Room[] => {
-  // If no connections available, try to create a path through waypoints
-  if (!start.connections.length || !end.connections.length) {
-    return createGridBasedPath(start, end, allRooms);
-  }
-  
-  // Copy rooms to work with
-  const rooms = [...allRooms];
-  
-  // Ensure start and end are in the rooms array
-  if (!rooms.some(r => r.id === start.id)) rooms.push(start);
-  if (!rooms.some(r => r.id === end.id)) rooms.push(end);
-  
-  // Initialize distances and previous nodes
-  const distances: {[id: string]: number} = {};
-  const previous: {[id: string]: string | null} = {};
-  const unvisited = new Set<string>();
-  
-  // Set all initial distances to infinity except start
-  rooms.forEach(room => {
-    distances[room.id] = room.id === start.id ? 0 : Infinity;
-    previous[room.id] = null;
-    unvisited.add(room.id);
-  });
+// Estimate of the remaining distance between two rooms, used to guide A*
+export type Heuristic = (from: Room, to: Room) => number;
+
+export type HeuristicName = "euclidean" | "manhattan" | "zero";
+
+export const heuristics: Record<HeuristicName, Heuristic> = {
+  // Never overestimates, so A* still returns the shortest route
+  euclidean: (from, to) => calculateDistance(from, to),
+  // Overestimates diagonal moves: expands fewer nodes but may miss the optimum
+  manhattan: (from, to) =>
+    calculateManhattanDistance(from, to) + Math.abs(from.floor - to.floor) * FLOOR_CHANGE_COST,
+  // Turns A* into plain Dijkstra
+  zero: () => 0,
+};
+
+// Shortest known cost to each explored room and the room it was reached from
+interface SearchState {
+  costs: Map<string, number>;
+  previous: Map<string, string>;
+}
+
+// Core best-first search. With an end room and a heuristic this is A*; without
+// an end it settles every reachable room, i.e. single-source Dijkstra.
+const runSearch = (
+  graph: CampusGraph,
+  start: Room,
+  end: Room | null,
+  heuristic: Heuristic,
+  options: RouteOptions
+): SearchState => {
+  const costs = new Map<string, number>([[start.id, 0]]);
+  const previous = new Map<string, string>();
+  const closed = new Set<string>();
+  const open = new MinHeap<string>();
+  open.push(start.id, end ? heuristic(start, end) : 0);
   
-  while (unvisited.size > 0) {
-    // Find room with minimum distance
-    let currentId: string | null = null;
-    let minDistance = Infinity;
+  while (open.size > 0) {
+    const currentId = open.pop()!;
+    if (closed.has(currentId)) continue; // Stale heap entry
+    if (end && currentId === end.id) break;
+    closed.add(currentId);
     
-    unvisited.forEach(id => {
-      if (distances[id] < minDistance) {
-        currentId = id;
-        minDistance = distances[id];
-      }
-    });
-    
-    // If we can't find a next room or we've reached the end, break
-    if (currentId === null || currentId === end.id) break;
+    const currentCost = costs.get(currentId)!;
     
-    unvisited.delete(currentId);
-    
-    const currentRoom = rooms.find(r => r.id === currentId)!;
-    
-    // Process all connections of the current room
-    currentRoom.connections.forEach(neighborId => {
-      if (!unvisited.has(neighborId)) return;
-      
-      const neighbor = rooms.find(r => r.id === neighborId);
-      if (!neighbor) return; // Skip if connection points to non-existent room
+    getNeighbors(graph, currentId).forEach(({ room: neighbor, distance, access }) => {
+      if (closed.has(neighbor.id)) return;
+      if (options.accessible && !isStepFree(access)) return;
       
-      const distance = distances[currentId!] + calculateDistance(currentRoom, neighbor);
-      
-      if (distance < distances[neighborId]) {
-        distances[neighborId] = distance;
-        previous[neighborId] = currentId;
+      const cost = currentCost + distance;
+      if (cost < (costs.get(neighbor.id) ?? Infinity)) {
+        costs.set(neighbor.id, cost);
+        previous.set(neighbor.id, currentId);
+        open.push(neighbor.id, cost + (end ? heuristic(neighbor, end) : 0));
       }
     });
   }
   
-  // Reconstruct path
+  return { costs, previous };
+};
+
+// Walk the previous-room links back from endId to the search origin
+const reconstructPath = (graph: CampusGraph, previous: Map<string, string>, endId: string): Room[] => {
   const path: Room[] = [];
-  let currentId: string | null = end.id;
+  let currentId: string | undefined = endId;
   
-  while (currentId) {
-    const room = rooms.find(r => r.id === currentId);
-    if (!room) break;
-    
-    path.unshift(room);
-    currentId = previous[currentId];
+  while (currentId !== undefined) {
+    path.unshift(graph.roomsById.get(currentId)!);
+    currentId = previous.get(currentId);
+  }
+  
+  return path;
+};
+
+// A* search over the campus graph; returns null when the end is unreachable
+export const searchPath = (
+  graph: CampusGraph,
+  startId: string,
+  endId: string,
+  heuristic: Heuristic = heuristics.euclidean,
+  options: RouteOptions = {}
+): Room[] | null => {
+  const start = graph.roomsById.get(startId);
+  const end = graph.roomsById.get(endId);
+  if (!start || !end) return null;
+  
+  const { costs, previous } = runSearch(graph, start, end, heuristic, options);
+  if (!costs.has(endId)) return null;
+  
+  return reconstructPath(graph, previous, endId);
+};
+
+export interface ShortestPathTree {
+  costs: ReadonlyMap<string, number>; // Route length from the origin to every reachable room
+  pathTo: (roomId: string) => Room[] | null;
+}
+
+// Shortest routes from one room to every other reachable room
+export const getShortestPathTree = (
+  start: Room,
+  graph: CampusGraph,
+  options: RouteOptions = {}
+): ShortestPathTree => {
+  const { costs, previous } = runSearch(graph, start, null, heuristics.zero, options);
+  
+  return {
+    costs,
+    pathTo: (roomId) => (costs.has(roomId) ? reconstructPath(graph, previous, roomId) : null),
+  };
+};
+
+export interface NearestResult {
+  room: Room;
+  distance: number;
+  path: Room[];
+}
+
+// Closest rooms matching a predicate by walking distance, nearest first
+export const findNearest = (
+  start: Room,
+  graph: CampusGraph,
+  matches: (room: Room) => boolean,
+  limit: number = 3,
+  options: RouteOptions = {}
+): NearestResult[] => {
+  const tree = getShortestPathTree(start, graph, options);
+  
+  return graph.rooms
+    .filter(room => room.id !== start.id && matches(room) && tree.costs.has(room.id))
+    .sort((a, b) => tree.costs.get(a.id)! - tree.costs.get(b.id)!)
+    .slice(0, limit)
+    .map(room => ({ room, distance: tree.costs.get(room.id)!, path: tree.pathTo(room.id)! }));
+};
+
+const findPath = (
+  start: Room,
+  end: Room,
+  graph: CampusGraph,
+  heuristic: Heuristic,
+  options: RouteOptions
+): Room[] => {
+  // The grid fallback knows nothing about stairs, so it can never promise a step-free route
+  if (options.accessible) {
+    return searchPath(graph, start.id, end.id, heuristic, options) ?? [];
   }
   
-  // If path doesn't start with the start room, it means there's no valid path
-  if (path.length === 0 || path[0].id !== start.id) {
-    // Try to create a grid-based path
-    return createGridBasedPath(start, end, allRooms);
+  // If no connections available, try to create a path through waypoints
+  if (!getNeighbors(graph, start.id).length || !getNeighbors(graph, end.id).length) {
+    return createFallbackPath(start, end, graph.rooms);
   }
   
-  return path;
+  const path = searchPath(graph, start.id, end.id, heuristic, options);
+  
+  // No valid path in the graph, try to create a grid-based path
+  return path ?? createFallbackPath(start, end, graph.rooms);
+};
+
+// Dijkstra's algorithm for finding shortest path
+export const getShortestPath = (
+  start: Room,
+  end: Room,
+  graph: CampusGraph,
+  options: RouteOptions = {}
+): Room[] => {
+  return findPath(start, end, graph, heuristics.zero, options);
+};
+
+// A* pathfinding algorithm; Euclidean by default, which keeps routes optimal
+export const findPathAStar = (
+  start: Room,
+  end: Room,
+  graph: CampusGraph,
+  heuristic: HeuristicName = "euclidean",
+  options: RouteOptions = {}
+): Room[] => {
+  return findPath(start, end, graph, heuristics[heuristic], options);
+};
+
+// Grid-based fallback only makes sense on a single floor; there is no way to
+// invent a staircase, so rooms on different floors without a route stay unreachable
+const createFallbackPath = (start: Room, end: Room, allRooms: readonly Room[]): Room[] => {
+  if (start.floor !== end.floor) return [];
+  
+  return createGridBasedPath(start, end, allRooms.filter(r => r.floor === start.floor));
 };
 
 // Create a path using a grid-based approach (Manhattan-style movement)
-const createGridBasedPath = (start: Room, end: Room, allRooms: Room[]): Room[] => {
+const createGridBasedPath = (start: Room, end: Room, allRooms: readonly Room[]): Room[] => {
   // Find all waypoints
   const waypoints = allRooms.filter(r => r.type === "waypoint");
   
@@ -178,6 +320,8 @@ const createGridBasedPath = (start: Room, end: Room, allRooms: Room[]): Room[] =
           name: "Corridor",
           x: horizontalX,
           y: horizontalY,
+          floor: start.floor,
+          building: start.building,
           connections: [],
           type: "waypoint"
         };
@@ -224,6 +368,8 @@ const createGridBasedPath = (start: Room, end: Room, allRooms: Room[]): Room[] =
           name: "Corridor",
           x: verticalX,
           y: verticalY,
+          floor: start.floor,
+          building: start.building,
           connections: [],
           type: "waypoint"
         };
@@ -243,7 +389,7 @@ const createGridBasedPath = (start: Room, end: Room, allRooms: Room[]): Room[] =
 };
 
 // Find a route through existing waypoints to avoid obstacles
-const findRouteThroughWaypoints = (start: Room, end: Room, waypoints: Room[], allRooms: Room[]): Room[] => {
+const findRouteThroughWaypoints = (start: Room, end: Room, waypoints: readonly Room[], allRooms: readonly Room[]): Room[] => {
   // Find waypoints that could help create a path
   const potentialWaypoints = waypoints.filter(w => {
     // Calculate if this waypoint would help us get closer to the destination
@@ -280,6 +426,8 @@ const findRouteThroughWaypoints = (start: Room, end: Room, waypoints: Room[], al
       name: "Corner",
       x: end.x,
       y: start.y,
+      floor: start.floor,
+      building: start.building,
       connections: [],
       type: "waypoint"
     },
@@ -288,7 +436,7 @@ const findRouteThroughWaypoints = (start: Room, end: Room, waypoints: Room[], al
 };
 
 // Find the nearest waypoint to a room
-const findNearestWaypoint = (room: Room, waypoints: Room[]): Room | null => {
+const findNearestWaypoint = (room: Room, waypoints: readonly Room[]): Room | null => {
   if (waypoints.length === 0) return null;
   
   let nearest = waypoints[0];
@@ -305,79 +453,8 @@ const findNearestWaypoint = (room: Room, waypoints: Room[]): Room | null => {
   return nearest;
 };
 
-// Run Dijkstra's algorithm with enhanced connections
-const runDijkstra = (start: Room, end: Room, allRooms: Room[]): Room[] => {
-  const rooms = [...allRooms];
-  
-  // Initialize distances and previous nodes
-  const distances: {[id: string]: number} = {};
-  const previous: {[id: string]: string | null} = {};
-  const unvisited = new Set<string>();
-  
-  // Set all initial distances to infinity except start
-  rooms.forEach(room => {
-    distances[room.id] = room.id === start.id ? 0 : Infinity;
-    previous[room.id] = null;
-    unvisited.add(room.id);
-  });
-  
-  while (unvisited.size > 0) {
-    // Find room with minimum distance
-    let currentId: string | null = null;
-    let minDistance = Infinity;
-    
-    unvisited.forEach(id => {
-      if (distances[id] < minDistance) {
-        currentId = id;
-        minDistance = distances[id];
-      }
-    });
-    
-    // If we can't find a next room or we've reached the end, break
-    if (currentId === null || currentId === end.id) break;
-    
-    unvisited.delete(currentId);
-    
-    const currentRoom = rooms.find(r => r.id === currentId)!;
-    
-    // Process all connections of the current room
-    currentRoom.connections.forEach(neighborId => {
-      if (!unvisited.has(neighborId)) return;
-      
-      const neighbor = rooms.find(r => r.id === neighborId);
-      if (!neighbor) return; // Skip if connection points to non-existent room
-      
-      const distance = distances[currentId!] + calculateDistance(currentRoom, neighbor);
-      
-      if (distance < distances[neighborId]) {
-        distances[neighborId] = distance;
-        previous[neighborId] = currentId;
-      }
-    });
-  }
-  
-  // Reconstruct path
-  const path: Room[] = [];
-  let currentId: string | null = end.id;
-  
-  while (currentId) {
-    const room = rooms.find(r => r.id === currentId);
-    if (!room) break;
-    
-    path.unshift(room);
-    currentId = previous[currentId];
-  }
-  
-  // If no path found, return direct path
-  if (path.length === 0 || path[0].id !== start.id) {
-    return [start, end];
-  }
-  
-  return path;
-};
-
 // Check if a path crosses through a room (that is not in the connections)
-export const pathCrossesRoom = (path: Room[], rooms: Room[]): boolean => {
+export const pathCrossesRoom = (path: Room[], rooms: readonly Room[]): boolean => {
   // Implementation would check if line segments between consecutive path points
   // intersect with room boundaries that aren't in the connections
   for (let i = 0; i < path.length - 1; i++) {
@@ -385,11 +462,14 @@ export const pathCrossesRoom = (path: Room[], rooms: Room[]): boolean => {
     const p2 = path[i + 1];
     
     for (const room of rooms) {
-      // Skip if room is a waypoint or part of the path
-      if (room.type === "waypoint" || path.some(p => p.id === room.id)) continue;
+      // Skip waypoints, and rooms on the path unless this segment enters or leaves them
+      if (room.type === "waypoint") continue;
+      if (room.id !== p1.id && room.id !== p2.id && path.some(p => p.id === room.id)) continue;
+      // Vertical moves and rooms on other floors cannot block this segment
+      if (p1.floor !== p2.floor || room.floor !== p1.floor) continue;
       
-      // Check if this path segment passes through the room
-      if (linePassesThroughRoom(p1.x, p1.y, p2.x, p2.y, room.x, room.y)) {
+      // Check if this path segment passes through the room, or through its walls
+      if (isSegmentBlockedByRoom(p1, p2, room)) {
         return true;
       }
     }
@@ -397,9 +477,3 @@ export const pathCrossesRoom = (path: Room[], rooms: Room[]): boolean => {
   
   return false;
 };
-
-// A* pathfinding algorithm (more efficient than Dijkstra but similar concept)
-export const findPathAStar = (start: Room, end: Room, allRooms: Room[]): Room[] => {
-  // We'll use our enhanced getShortestPath implementation instead
-  return getShortestPath(start, end, allRooms);
-};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { MinHeap } from "@/lib/priorityQueue";
+
+describe("MinHeap", () => {
+  it("pops values in priority order", () => {
+    const heap = new MinHeap<string>();
+    [5, 1, 8, 3, 9, 2, 7].forEach(priority => heap.push(`p${priority}`, priority));
+
+    const popped: string[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+
+    expect(popped).toEqual(["p1", "p2", "p3", "p5", "p7", "p8", "p9"]);
+  });
+
+  it("keeps its order when pushes and pops are interleaved", () => {
+    const heap = new MinHeap<number>();
+    heap.push(10, 10);
+    heap.push(4, 4);
+    expect(heap.pop()).toBe(4);
+
+    heap.push(1, 1);
+    heap.push(6, 6);
+    expect(heap.pop()).toBe(1);
+    expect(heap.pop()).toBe(6);
+    expect(heap.pop()).toBe(10);
+  });
+
+  it("returns undefined once empty", () => {
+    const heap = new MinHeap<string>();
+    heap.push("only", 0);
+
+    expect(heap.pop()).toBe("only");
+    expect(heap.pop()).toBeUndefined();
+    expect(heap.size).toBe(0);
+  });
+});
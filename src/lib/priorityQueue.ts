@@ -0,0 +1,66 @@
+// Binary min-heap keyed by a numeric priority.
+// Used by the path searches so each pop is O(log n) instead of a linear scan.
+export class MinHeap<T> {
+  private items: { value: T; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    this.items.push({ value, priority });
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  // Remove and return the value with the lowest priority
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.sinkDown(0);
+    }
+
+    return top.value;
+  }
+
+  private bubbleUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+
+      this.swap(parent, index);
+      index = parent;
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.items.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.items[left].priority < this.items[smallest].priority) {
+        smallest = left;
+      }
+      if (right < length && this.items[right].priority < this.items[smallest].priority) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this.swap(smallest, index);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const temp = this.items[a];
+    this.items[a] = this.items[b];
+    this.items[b] = temp;
+  }
+}
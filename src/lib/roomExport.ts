@@ -0,0 +1,65 @@
+import { Room } from "@/lib/pathfinding";
+
+// Fields in the order they appear in roomData.ts; optional ones are left out when unset
+const fieldOrder: (keyof Room)[] = [
+  "id",
+  "name",
+  "aliases",
+  "x",
+  "y",
+  "floor",
+  "building",
+  "connections",
+  "type",
+  "category",
+  "access",
+  "connectionAccess",
+  "footprint",
+  "doors",
+];
+
+const toPlainRoom = (room: Room): Partial<Room> => {
+  const plain: Partial<Room> = {};
+  fieldOrder.forEach(field => {
+    const value = room[field];
+    if (value === undefined) return;
+    if (Array.isArray(value) && value.length === 0 && field !== "connections") return;
+    (plain as Record<string, unknown>)[field] = field === "x" || field === "y" ? Math.round(value as number) : value;
+  });
+  return plain;
+};
+
+// A drop-in replacement for src/data/roomData.ts, graph exports included
+export const exportRoomsAsTypeScript = (rooms: readonly Room[]): string => {
+  const entries = rooms.map(room => {
+    const lines = Object.entries(toPlainRoom(room)).map(([key, value]) => `    ${key}: ${JSON.stringify(value)},`);
+    return `  {\n${lines.join("\n")}\n  },`;
+  });
+
+  return [
+    `import { Room } from "@/lib/pathfinding";`,
+    `import { CampusGraph, GraphBuildOptions, buildGraph } from "@/lib/graph";`,
+    ``,
+    `// Generated by the map editor (/editor)`,
+    `export const allRooms: Room[] = [`,
+    ...entries,
+    `];`,
+    ``,
+    `export const setupRoomConnections = (options: GraphBuildOptions = {}): CampusGraph => {`,
+    `  return buildGraph(allRooms, options);`,
+    `};`,
+    ``,
+    `export const campusGraph = setupRoomConnections();`,
+    ``,
+  ].join("\n");
+};
+
+// Offer text as a file download from the browser
+export const downloadTextFile = (fileName: string, contents: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,99 @@
+import { Room } from "@/lib/pathfinding";
+
+export interface RoutePoint {
+  x: number;
+  y: number;
+  floor: number;
+}
+
+export interface RouteTrack {
+  points: RoutePoint[];
+  offsets: number[]; // Distance along the track at each point
+  length: number;
+}
+
+export interface TrackPosition extends RoutePoint {
+  heading: number; // Radians, screen coordinates (y down)
+  index: number; // Track point at or before this position
+}
+
+// Corner points of a drawn segment: diagonal hops are drawn as an L-shape
+// (horizontal then vertical), mostly straight ones as a direct line
+export const getSegmentCorners = (start: Room, end: Room): { x: number; y: number }[] => {
+  if (Math.abs(start.x - end.x) > 10 && Math.abs(start.y - end.y) > 10) {
+    return [{ x: end.x, y: start.y }, { x: end.x, y: end.y }];
+  }
+  return [{ x: end.x, y: end.y }];
+};
+
+// The route as drawn on the map, with the distance along it at every corner.
+// A floor change is a pause of `floorChangeLength` at the stairs or lift.
+export const buildRouteTrack = (path: Room[], floorChangeLength: number = 0): RouteTrack => {
+  if (path.length === 0) return { points: [], offsets: [], length: 0 };
+
+  const points: RoutePoint[] = [{ x: path[0].x, y: path[0].y, floor: path[0].floor }];
+  const offsets = [0];
+  let length = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const start = path[i - 1];
+    const end = path[i];
+
+    if (start.floor !== end.floor) {
+      length += floorChangeLength;
+      points.push({ x: start.x, y: start.y, floor: start.floor });
+      offsets.push(length);
+      points.push({ x: end.x, y: end.y, floor: end.floor });
+      offsets.push(length);
+      continue;
+    }
+
+    getSegmentCorners(start, end).forEach(corner => {
+      const previous = points[points.length - 1];
+      length += Math.sqrt(Math.pow(corner.x - previous.x, 2) + Math.pow(corner.y - previous.y, 2));
+      points.push({ ...corner, floor: end.floor });
+      offsets.push(length);
+    });
+  }
+
+  return { points, offsets, length };
+};
+
+// Where a walker `distance` along the track is, and which way it faces
+export const getTrackPosition = (track: RouteTrack, distance: number): TrackPosition | null => {
+  const { points, offsets } = track;
+  if (points.length === 0) return null;
+
+  const clamped = Math.min(Math.max(distance, 0), track.length);
+
+  // Last point whose offset is not beyond the distance, preferring walked segments
+  let index = 0;
+  while (index < points.length - 2 && offsets[index + 1] <= clamped) index++;
+
+  const from = points[index];
+  const to = points[index + 1] ?? from;
+  const span = offsets[index + 1] - offsets[index];
+  const t = span > 0 && from.floor === to.floor ? (clamped - offsets[index]) / span : 0;
+
+  // Face along the current segment, or the last real one while paused on stairs
+  let headingFrom = from;
+  let headingTo = to;
+  for (let i = index; i > 0 && headingFrom.x === headingTo.x && headingFrom.y === headingTo.y; i--) {
+    headingFrom = points[i - 1];
+    headingTo = points[i];
+  }
+
+  // At the very end, stand on the last point even if a floor change led there
+  if (clamped >= track.length) {
+    const last = points[points.length - 1];
+    return { ...last, heading: Math.atan2(headingTo.y - headingFrom.y, headingTo.x - headingFrom.x), index };
+  }
+
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    floor: from.floor,
+    heading: Math.atan2(headingTo.y - headingFrom.y, headingTo.x - headingFrom.x),
+    index,
+  };
+};
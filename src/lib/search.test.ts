@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { searchRooms } from "@/lib/search";
+
+const room = (id: string, name: string, aliases?: string[]): Room => ({
+  id,
+  name,
+  x: 0,
+  y: 0,
+  floor: 1,
+  building: "main",
+  type: "room",
+  connections: [],
+  aliases,
+});
+
+const rooms = [
+  room("mbr", "Master Board Room"),
+  room("greenRoom1", "Green Room 1"),
+  room("greenRoom2", "Green Room 2"),
+  room("aids", "AI&DS Department", ["Artificial Intelligence", "AIDS"]),
+  room("library", "Central Library"),
+  room("canteen", "Canteen"),
+];
+
+const names = (query: string) => searchRooms(rooms, query).map(result => result.room.name);
+
+describe("searchRooms", () => {
+  it("ranks an exact name above partial matches", () => {
+    const [first] = searchRooms(rooms, "canteen");
+
+    expect(first.room.id).toBe("canteen");
+    expect(first.score).toBe(1);
+  });
+
+  it("matches the start of each typed word", () => {
+    expect(names("green 2")[0]).toBe("Green Room 2");
+  });
+
+  it("matches acronyms", () => {
+    expect(names("mbr")[0]).toBe("Master Board Room");
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(names("ai ds")[0]).toBe("AI&DS Department");
+  });
+
+  it("matches aliases and reports which text matched", () => {
+    const [first] = searchRooms(rooms, "artificial");
+
+    expect(first.room.id).toBe("aids");
+    expect(first.matchedText).toBe("Artificial Intelligence");
+  });
+
+  it("tolerates typos in longer queries", () => {
+    expect(names("libary")[0]).toBe("Central Library");
+    expect(names("cnateen")[0]).toBe("Canteen");
+  });
+
+  it("returns nothing for text that matches no room", () => {
+    expect(names("zzzz")).toEqual([]);
+  });
+
+  it("lists rooms in their given order for an empty query, up to the limit", () => {
+    expect(searchRooms(rooms, "  ", 2).map(result => result.room.id)).toEqual(["mbr", "greenRoom1"]);
+  });
+});
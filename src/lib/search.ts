@@ -0,0 +1,143 @@
+import { Room } from "@/lib/pathfinding";
+import { CampusGraph, getNeighbors } from "@/lib/graph";
+
+export interface SearchResult {
+  room: Room;
+  score: number; // 0..1, higher is better
+  matchedText: string; // The name or alias that produced the score
+}
+
+// Named places that are wired into the graph and can be picked as start or destination
+export const getSearchableRooms = (graph: CampusGraph): Room[] => {
+  return graph.rooms
+    .filter(r => r.type !== "waypoint" && r.name.trim() !== "" && getNeighbors(graph, r.id).length > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Lowercase and strip punctuation so "AI&DS", "ai ds" and "AIDS" compare equal
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "");
+};
+
+const splitWords = (text: string): string[] => {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+// Typos allowed grow with the length of what was typed
+const allowedTypos = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+};
+
+const isSubsequence = (query: string, text: string): boolean => {
+  let index = 0;
+  for (const char of text) {
+    if (char === query[index]) index++;
+    if (index === query.length) return true;
+  }
+  return false;
+};
+
+// Score a single name or alias against the query
+const scoreText = (rawQuery: string, text: string): number => {
+  const query = normalize(rawQuery);
+  const target = normalize(text);
+  if (!query || !target) return 0;
+
+  if (target === query) return 1;
+  if (target.startsWith(query)) return 0.9;
+
+  const words = splitWords(text);
+  const queryWords = splitWords(rawQuery);
+
+  // Every typed word starts a word in the text, e.g. "green 2" -> "Green Room 2"
+  if (queryWords.length > 0 && queryWords.every(qw => words.some(w => w.startsWith(qw)))) {
+    return 0.8;
+  }
+
+  // Acronyms: "mbr" -> "Master Board Room"
+  const acronym = words.map(w => w[0]).join("");
+  if (acronym.length > 1 && acronym === query) return 0.78;
+  if (acronym.length > 1 && query.length > 1 && acronym.startsWith(query)) return 0.65;
+
+  if (target.includes(query)) return 0.6;
+
+  // Typo tolerance against the whole text and each word
+  const typos = allowedTypos(query.length);
+  if (typos > 0) {
+    const distances = [
+      editDistance(query, target),
+      editDistance(query, target.slice(0, query.length)),
+      ...words.map(w => editDistance(query, w)),
+    ];
+    const best = Math.min(...distances);
+    if (best <= typos) return 0.55 - best * 0.1;
+  }
+
+  if (query.length > 2 && isSubsequence(query, target)) return 0.3;
+
+  return 0;
+};
+
+// Rank rooms by how well their name, aliases or id match the query
+export const searchRooms = (rooms: Room[], query: string, limit: number = 20): SearchResult[] => {
+  if (normalize(query) === "") {
+    return rooms.slice(0, limit).map(room => ({ room, score: 0, matchedText: room.name }));
+  }
+
+  const results: SearchResult[] = [];
+
+  rooms.forEach(room => {
+    let best: SearchResult = { room, score: 0, matchedText: room.name };
+
+    const candidates: [string, number][] = [
+      [room.name, 1],
+      ...(room.aliases ?? []).map(alias => [alias, 0.95] as [string, number]),
+      [room.id, 0.9],
+    ];
+
+    candidates.forEach(([text, weight]) => {
+      const score = scoreText(query, text) * weight;
+      if (score > best.score) {
+        best = { room, score, matchedText: text };
+      }
+    });
+
+    if (best.score > 0) results.push(best);
+  });
+
+  results.sort((a, b) => b.score - a.score || a.room.name.localeCompare(b.room.name));
+
+  // Loose subsequence hits are only noise once something matches well
+  const minimumScore = results.length > 0 && results[0].score >= 0.9 ? 0.35 : 0;
+
+  return results.filter(result => result.score > minimumScore).slice(0, limit);
+};
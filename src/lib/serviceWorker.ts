@@ -0,0 +1,52 @@
+import { toast } from "@/components/ui/sonner";
+
+// How often an open tab checks for a new deployment
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const promptToUpdate = (worker: ServiceWorker) => {
+  toast("A new version of the map is available", {
+    description: "Reload to get the latest rooms and fixes.",
+    duration: Infinity,
+    action: {
+      label: "Reload",
+      onClick: () => worker.postMessage({ type: "SKIP_WAITING" }),
+    },
+  });
+};
+
+// Precaches the app for offline use (production builds only, since the worker
+// is generated at build time). Updates wait until the user agrees to reload.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  // The first install also takes control; only an update needs a reload
+  const hadController = Boolean(navigator.serviceWorker.controller);
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (!hadController || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(registration => {
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          promptToUpdate(registration.waiting);
+        }
+
+        registration.addEventListener("updatefound", () => {
+          const worker = registration.installing;
+          worker?.addEventListener("statechange", () => {
+            if (worker.state === "installed" && navigator.serviceWorker.controller) {
+              promptToUpdate(worker);
+            }
+          });
+        });
+
+        setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL);
+      })
+      .catch(error => console.error("Service worker registration failed:", error));
+  });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { Room } from "@/lib/pathfinding";
+import { buildGraph } from "@/lib/graph";
+import { getSignageAnchors } from "@/lib/signage";
+
+const node = (id: string, type: Room["type"], connections: string[]): Room => ({
+  id,
+  name: type === "waypoint" ? "" : id,
+  x: 0,
+  y: 0,
+  floor: 1,
+  building: "main-block",
+  type,
+  connections,
+});
+
+// entrance - corridor - junction, with the junction branching to a lab and the stairs
+const graph = buildGraph([
+  node("entrance", "entrance", ["corridor"]),
+  node("corridor", "waypoint", ["junction"]),
+  node("junction", "waypoint", ["lab", "stairs"]),
+  node("lab", "room", []),
+  node("stairs", "stairs", []),
+  node("loose", "waypoint", []),
+]);
+
+describe("getSignageAnchors", () => {
+  it("signs entrances, stairs and junctions but not plain corridor points or rooms", () => {
+    const ids = getSignageAnchors(graph, "https://map.example").map(anchor => anchor.room.id);
+
+    expect(ids.sort()).toEqual(["entrance", "junction", "stairs"]);
+  });
+
+  it("links each sign to its own starting point", () => {
+    const [junction] = getSignageAnchors(graph, "https://map.example/").filter(anchor => anchor.room.id === "junction");
+
+    expect(junction.label).toBe("Junction junction");
+    expect(junction.url.startsWith("https://map.example/")).toBe(true);
+    expect(junction.url).toContain("junction");
+  });
+});
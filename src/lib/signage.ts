@@ -0,0 +1,49 @@
+import QRCode from "qrcode";
+import { Room } from "@/lib/pathfinding";
+import { CampusGraph, getNeighbors } from "@/lib/graph";
+import { buildHerePath } from "@/lib/deepLinks";
+import { getFloor } from "@/data/floorData";
+
+export interface SignageAnchor {
+  room: Room;
+  label: string;
+  floorName: string;
+  url: string; // Deep link that sets this node as the start point
+}
+
+// Places where a sign can be physically mounted and recognised by visitors
+const ANCHOR_TYPES: Room["type"][] = ["entrance", "stairs", "lift", "waypoint"];
+
+// A waypoint with two links is just a point along a corridor; three or more make a junction
+const MIN_JUNCTION_LINKS = 3;
+
+const isSignageAnchor = (graph: CampusGraph, room: Room): boolean => {
+  if (!ANCHOR_TYPES.includes(room.type)) return false;
+
+  const links = getNeighbors(graph, room.id).length;
+  return room.type === "waypoint" ? links >= MIN_JUNCTION_LINKS : links > 0;
+};
+
+// Every entrance, stairs, lift and corridor junction that is wired into the graph
+export const getSignageAnchors = (graph: CampusGraph, baseUrl: string): SignageAnchor[] => {
+  const origin = baseUrl.replace(/\/+$/, "");
+
+  return graph.rooms
+    .filter(room => isSignageAnchor(graph, room))
+    .map(room => ({
+      room,
+      label: room.name.trim() !== "" ? room.name : `Junction ${room.id}`,
+      floorName: getFloor(room.floor, room.building).name,
+      url: `${origin}${buildHerePath(room)}`,
+    }))
+    .sort((a, b) => a.room.floor - b.room.floor || a.label.localeCompare(b.label));
+};
+
+// Render a QR code as standalone SVG markup, entirely in the browser
+export const renderQrSvg = (url: string): Promise<string> => {
+  return QRCode.toString(url, {
+    type: "svg",
+    errorCorrectionLevel: "M",
+    margin: 1,
+  });
+};
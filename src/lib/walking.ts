@@ -0,0 +1,102 @@
+import { Room } from "@/lib/pathfinding";
+import { getConnectionAccess } from "@/lib/graph";
+import { getFloor, getPixelsPerMetre } from "@/data/floorData";
+
+export type WalkingPace = "relaxed" | "average" | "brisk";
+
+export interface WalkingProfile {
+  walkingSpeed: number; // Metres per second
+  accessibleSpeed: number; // Metres per second when a step-free route is requested
+  stairFlightSeconds: number; // Extra time for every flight climbed or descended
+  liftRideSeconds: number; // Waiting for and riding a lift, per trip
+}
+
+export const walkingPaces: Record<WalkingPace, { label: string; speed: number }> = {
+  relaxed: { label: "Relaxed", speed: 1.0 },
+  average: { label: "Average", speed: 1.3 },
+  brisk: { label: "Brisk", speed: 1.6 },
+};
+
+export const defaultWalkingProfile: WalkingProfile = {
+  walkingSpeed: walkingPaces.average.speed,
+  accessibleSpeed: 0.8,
+  stairFlightSeconds: 15,
+  liftRideSeconds: 45,
+};
+
+export const getWalkingProfile = (pace: WalkingPace): WalkingProfile => {
+  return { ...defaultWalkingProfile, walkingSpeed: walkingPaces[pace].speed };
+};
+
+// Real-world length of one hop; floor changes are covered by the stair and lift allowances
+export const getSegmentMetres = (from: Room, to: Room): number => {
+  if (from.floor !== to.floor) return 0;
+
+  const pixels = Math.sqrt(Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2));
+  return pixels / getPixelsPerMetre(getFloor(from.floor, from.building));
+};
+
+export const getRouteMetres = (path: Room[]): number => {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += getSegmentMetres(path[i - 1], path[i]);
+  }
+  return total;
+};
+
+// Flights of stairs walked: one per level changed on stairs, plus any
+// same-floor steps the route passes over
+export const countStairFlights = (path: Room[]): number => {
+  let flights = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const prev = path[i - 1];
+    const current = path[i];
+    const access = getConnectionAccess(prev, current);
+
+    if (prev.floor !== current.floor) {
+      if (access !== "lift") flights += Math.abs(current.floor - prev.floor);
+    } else if (access === "stairs" || access === "steps") {
+      // A stairs node touches both the edge in and the edge out; count the pass once
+      const next = path[i + 1];
+      const passesThrough = next && next.floor === current.floor && current.type === "stairs";
+      const explicit = prev.connectionAccess?.[current.id] ?? current.connectionAccess?.[prev.id];
+      if (passesThrough || explicit) flights++;
+    }
+  }
+
+  return flights;
+};
+
+const countLiftRides = (path: Room[]): number => {
+  let rides = 0;
+  for (let i = 1; i < path.length; i++) {
+    if (path[i].floor !== path[i - 1].floor && getConnectionAccess(path[i - 1], path[i]) === "lift") rides++;
+  }
+  return rides;
+};
+
+// Estimated walking time for a route, in seconds
+export const estimateWalkingSeconds = (
+  path: Room[],
+  accessible: boolean = false,
+  profile: WalkingProfile = defaultWalkingProfile
+): number => {
+  const speed = accessible ? profile.accessibleSpeed : profile.walkingSpeed;
+
+  return (
+    getRouteMetres(path) / speed +
+    countStairFlights(path) * profile.stairFlightSeconds +
+    countLiftRides(path) * profile.liftRideSeconds
+  );
+};
+
+export const formatDistance = (metres: number): string => {
+  if (metres >= 1000) return `${(metres / 1000).toFixed(1)} km`;
+  return `${Math.round(metres)} m`;
+};
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return "under 1 min";
+  return `${Math.round(seconds / 60)} min`;
+};
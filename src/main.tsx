@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerServiceWorker } from './lib/serviceWorker'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
@@ -0,0 +1,460 @@
+import { useEffect, useReducer, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import MapEditorCanvas, { EditorTool } from "@/components/MapEditorCanvas";
+import RoomInspector from "@/components/RoomInspector";
+import GraphDiagnostics from "@/components/GraphDiagnostics";
+import { Room } from "@/lib/pathfinding";
+import { areConnected, canConnect, createEditorState, createRoomId, editorReducer } from "@/lib/mapEditor";
+import { downloadTextFile, exportRoomsAsTypeScript } from "@/lib/roomExport";
+import { CampusData, serializeCampusFile } from "@/lib/campusFile";
+import { serializeGeoJson } from "@/lib/geojson";
+import { parseCampusDocument } from "@/lib/campusLoader";
+import { useCampusData } from "@/hooks/use-campus-data";
+import { cn } from "@/lib/utils";
+import {
+  ChevronLeft,
+  Circle,
+  FileCode,
+  FileJson,
+  Globe,
+  MousePointer2,
+  PenTool,
+  Redo2,
+  RotateCcw,
+  Spline,
+  SquarePlus,
+  Trash2,
+  Undo2,
+  Upload,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+
+const tools: { id: EditorTool; label: string; key: string; icon: typeof MousePointer2; hint: string }[] = [
+  { id: "select", label: "Select / move", key: "v", icon: MousePointer2, hint: "Click to select, drag to move." },
+  { id: "room", label: "Add room", key: "r", icon: SquarePlus, hint: "Click the blueprint to place a room. It links to the selected node." },
+  { id: "waypoint", label: "Add waypoint", key: "w", icon: Circle, hint: "Click along a corridor to lay waypoints; each links to the previous one." },
+  { id: "connect", label: "Connect", key: "c", icon: Spline, hint: "Click two nodes to link them, or unlink them if already linked." },
+  { id: "delete", label: "Delete", key: "x", icon: Trash2, hint: "Click a node or a link to remove it." },
+];
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable);
+
+// Everything in a campus file apart from the rooms being edited
+type FloorPlan = Omit<CampusData, "rooms">;
+
+const getFloorPlan = ({ rooms, ...floorPlan }: CampusData): FloorPlan => floorPlan;
+
+const Editor = () => {
+  const { data: published } = useCampusData();
+  const [state, dispatch] = useReducer(editorReducer, published.rooms, createEditorState);
+  const [floorPlan, setFloorPlan] = useState<FloorPlan>(() => getFloorPlan(published));
+  const [tool, setTool] = useState<EditorTool>("select");
+  const [activeLevel, setActiveLevel] = useState(published.floors[0].level);
+  const [zoom, setZoom] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectFromId, setConnectFromId] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { rooms } = state;
+  const { floors } = floorPlan;
+  const floor = floors.find(f => f.level === activeLevel) ?? floors[0];
+  const selectedRoom = rooms.find(room => room.id === selectedId) ?? null;
+
+  const findRoom = (id: string) => rooms.find(room => room.id === id);
+
+  // Selection can disappear through delete or undo
+  if (selectedId && !selectedRoom) setSelectedId(null);
+  if (connectFromId && !findRoom(connectFromId)) setConnectFromId(null);
+
+  const changeTool = (next: EditorTool) => {
+    setTool(next);
+    setConnectFromId(null);
+  };
+
+  const deleteRoom = (room: Room) => {
+    dispatch({ type: "delete", id: room.id });
+    if (room.id === selectedId) setSelectedId(null);
+  };
+
+  const toggleConnection = (from: Room, to: Room) => {
+    if (areConnected(from, to)) {
+      dispatch({ type: "disconnect", from: from.id, to: to.id });
+      return;
+    }
+    if (!canConnect(from, to)) {
+      toast.error("Can't link these", {
+        description: "Nodes on different floors can only be linked between stairs or lifts.",
+      });
+      return;
+    }
+    dispatch({ type: "connect", from: from.id, to: to.id });
+  };
+
+  const handleNodeClick = (room: Room) => {
+    switch (tool) {
+      case "connect":
+        if (!connectFromId || connectFromId === room.id) {
+          setConnectFromId(room.id);
+          return;
+        }
+        toggleConnection(findRoom(connectFromId), room);
+        // Keep going from the last node so a corridor can be drawn in one go
+        setConnectFromId(room.id);
+        return;
+
+      case "delete":
+        deleteRoom(room);
+        return;
+
+      default:
+        setSelectedId(room.id);
+    }
+  };
+
+  const handleBackgroundClick = (x: number, y: number) => {
+    if (tool !== "room" && tool !== "waypoint") {
+      setSelectedId(null);
+      setConnectFromId(null);
+      return;
+    }
+
+    const isWaypoint = tool === "waypoint";
+    const previous = selectedRoom && selectedRoom.floor === floor.level ? selectedRoom : null;
+    const room: Room = {
+      id: createRoomId(rooms, isWaypoint ? "waypoint" : "room"),
+      name: isWaypoint ? "" : "New room",
+      x,
+      y,
+      floor: floor.level,
+      building: floor.building,
+      connections: previous ? [previous.id] : [],
+      type: isWaypoint ? "waypoint" : "room",
+    };
+
+    dispatch({ type: "add", room });
+    setSelectedId(room.id);
+  };
+
+  const handleRename = (id: string) => {
+    if (!selectedRoom) return;
+    if (!/^[a-z0-9-]+$/.test(id)) {
+      toast.error("Invalid id", { description: "Use lowercase letters, digits and hyphens." });
+      return;
+    }
+    if (findRoom(id)) {
+      toast.error("Id already in use", { description: id });
+      return;
+    }
+    dispatch({ type: "update", id: selectedRoom.id, changes: { id } });
+    setSelectedId(id);
+  };
+
+  const handleExport = (format: "ts" | "json" | "geojson") => {
+    const data: CampusData = { ...floorPlan, rooms };
+    if (format === "ts") {
+      downloadTextFile("roomData.generated.ts", exportRoomsAsTypeScript(rooms), "text/typescript");
+    } else if (format === "json") {
+      downloadTextFile("campus.json", serializeCampusFile(data), "application/json");
+    } else {
+      try {
+        downloadTextFile("campus.geojson", serializeGeoJson(data), "application/geo+json");
+      } catch (error) {
+        toast.error("Couldn't export GeoJSON", { description: (error as Error).message });
+      }
+    }
+  };
+
+  const loadData = (data: CampusData) => {
+    dispatch({ type: "load", rooms: data.rooms });
+    setFloorPlan(getFloorPlan(data));
+    setSelectedId(null);
+    if (!data.floors.some(f => f.level === activeLevel)) setActiveLevel(data.floors[0].level);
+  };
+
+  const handleImport = async (file: File) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      toast.error("Couldn't read the file", { description: `${file.name} is not valid JSON.` });
+      return;
+    }
+
+    const result = parseCampusDocument(json);
+    if (result.success === false) {
+      console.error(`Rejected ${file.name}:`, result.errors);
+      toast.error("File doesn't match the campus schema", {
+        description: result.errors.slice(0, 3).join("\n"),
+      });
+      return;
+    }
+
+    loadData(result.data);
+    toast.success("Map imported", { description: `${result.data.rooms.length} nodes from ${file.name}` });
+  };
+
+  // Shortcut handler reads the latest state without re-binding on every edit
+  const shortcuts = useRef<(e: KeyboardEvent) => void>();
+  shortcuts.current = (e: KeyboardEvent) => {
+    if (isTyping(e.target)) return;
+
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && key === "z") {
+      e.preventDefault();
+      dispatch({ type: e.shiftKey ? "redo" : "undo" });
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && key === "y") {
+      e.preventDefault();
+      dispatch({ type: "redo" });
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if ((e.key === "Delete" || e.key === "Backspace") && selectedRoom) {
+      e.preventDefault();
+      deleteRoom(selectedRoom);
+      return;
+    }
+    if (e.key === "Escape") {
+      setSelectedId(null);
+      setConnectFromId(null);
+      return;
+    }
+
+    const shortcutTool = tools.find(t => t.key === key);
+    if (shortcutTool) changeTool(shortcutTool.id);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcuts.current?.(e);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+  const activeTool = tools.find(t => t.id === tool);
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-white">
+      <header className="bg-gray-800 text-white py-2 px-4 shadow-lg z-10">
+        <div className="container mx-auto flex flex-wrap gap-2 justify-between items-center">
+          <h1 className="text-xl font-bold flex items-center">
+            <PenTool className="mr-2" />
+            Map Editor
+          </h1>
+          <Link
+            to="/"
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-md text-sm flex items-center"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Back to map
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-grow flex min-h-0">
+        <div className="w-80 bg-gray-800 border-r border-gray-700 overflow-y-auto">
+          <div className="p-4 space-y-4">
+            <Card className="p-4 bg-gray-700 border-gray-600 text-white">
+              <h2 className="text-lg font-medium mb-2">Tools</h2>
+              <div className="grid grid-cols-5 gap-1">
+                {tools.map(t => (
+                  <button
+                    key={t.id}
+                    className={cn(
+                      "h-9 rounded-md flex items-center justify-center",
+                      t.id === tool ? "bg-blue-600" : "bg-gray-800 hover:bg-gray-600"
+                    )}
+                    onClick={() => changeTool(t.id)}
+                    aria-label={t.label}
+                    aria-pressed={t.id === tool}
+                    title={`${t.label} (${t.key.toUpperCase()})`}
+                  >
+                    <t.icon className="h-4 w-4" />
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-sm text-gray-300">
+                <span className="font-medium">{activeTool.label}:</span> {activeTool.hint}
+              </p>
+
+              <div className="mt-3 flex gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => dispatch({ type: "undo" })}
+                  disabled={state.past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Undo
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => dispatch({ type: "redo" })}
+                  disabled={state.future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="h-4 w-4" />
+                  Redo
+                </Button>
+              </div>
+            </Card>
+
+            <Card className="p-4 bg-gray-700 border-gray-600 text-white">
+              <h2 className="text-lg font-medium mb-2">
+                {selectedRoom ? selectedRoom.name || "Waypoint" : "Properties"}
+              </h2>
+              {selectedRoom ? (
+                <RoomInspector
+                  room={selectedRoom}
+                  rooms={rooms}
+                  floors={floors}
+                  onChange={(changes) => dispatch({ type: "update", id: selectedRoom.id, changes })}
+                  onRename={handleRename}
+                  onDisconnect={(otherId) => dispatch({ type: "disconnect", from: selectedRoom.id, to: otherId })}
+                  onSelect={(id) => {
+                    const other = findRoom(id);
+                    setSelectedId(id);
+                    if (other) setActiveLevel(other.floor);
+                  }}
+                  onDelete={() => deleteRoom(selectedRoom)}
+                />
+              ) : (
+                <p className="text-sm text-gray-300">Select a node to edit its name, type and links.</p>
+              )}
+            </Card>
+
+            <Card className="p-4 bg-gray-700 border-gray-600 text-white">
+              <h2 className="text-lg font-medium mb-2">Import / Export</h2>
+              <p className="text-sm text-gray-300 mb-3">
+                {rooms.length} nodes. Publish <code>campus.json</code> at the site root to update the
+                live map without a rebuild, or replace <code>src/data/roomData.ts</code> with the
+                TypeScript file.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <Button size="sm" onClick={() => handleExport("json")} title="Versioned campus file">
+                  <FileJson className="h-4 w-4" />
+                  JSON
+                </Button>
+                <Button size="sm" onClick={() => handleExport("geojson")} title="Longitude/latitude for GIS tools">
+                  <Globe className="h-4 w-4" />
+                  GeoJSON
+                </Button>
+                <Button size="sm" onClick={() => handleExport("ts")} title="Typed data module">
+                  <FileCode className="h-4 w-4" />
+                  TS
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.geojson,application/json,application/geo+json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                className="w-full mt-2"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="h-4 w-4" />
+                Import JSON or GeoJSON
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full mt-2 text-gray-300 hover:text-white hover:bg-gray-600"
+                onClick={() => loadData(published)}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Revert to published data
+              </Button>
+            </Card>
+
+            <Card className="p-4 bg-gray-700 border-gray-600 text-white">
+              <GraphDiagnostics rooms={rooms} />
+            </Card>
+          </div>
+        </div>
+
+        <div className="flex-grow flex flex-col min-w-0">
+          <div className="flex items-center justify-between gap-2 p-2 bg-gray-800 border-b border-gray-700">
+            <div className="flex gap-1">
+              {floors.map(f => (
+                <button
+                  key={`${f.building}-${f.level}`}
+                  className={cn(
+                    "px-3 h-8 rounded-md text-xs font-medium",
+                    f.level === activeLevel ? "bg-blue-600" : "hover:bg-gray-700"
+                  )}
+                  onClick={() => setActiveLevel(f.level)}
+                  aria-pressed={f.level === activeLevel}
+                >
+                  {f.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                className="w-8 h-8 rounded-md flex items-center justify-center hover:bg-gray-700 disabled:opacity-40"
+                onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])}
+                disabled={zoomIndex <= 0}
+                aria-label="Zoom out"
+              >
+                <ZoomOut className="h-4 w-4" />
+              </button>
+              <span className="w-12 text-center text-xs">{Math.round(zoom * 100)}%</span>
+              <button
+                className="w-8 h-8 rounded-md flex items-center justify-center hover:bg-gray-700 disabled:opacity-40"
+                onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])}
+                disabled={zoomIndex >= ZOOM_LEVELS.length - 1}
+                aria-label="Zoom in"
+              >
+                <ZoomIn className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-grow overflow-auto bg-gray-100">
+            <MapEditorCanvas
+              floor={floor}
+              rooms={rooms}
+              tool={tool}
+              zoom={zoom}
+              selectedId={selectedId}
+              connectFromId={connectFromId}
+              onNodeClick={handleNodeClick}
+              onEdgeClick={(from, to) => {
+                if (tool === "delete") dispatch({ type: "disconnect", from: from.id, to: to.id });
+              }}
+              onBackgroundClick={handleBackgroundClick}
+              onDragStart={() => dispatch({ type: "checkpoint" })}
+              onDrag={(room, x, y) => dispatch({ type: "move", id: room.id, x, y })}
+            />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Editor;
@@ -1,20 +1,106 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import CollegeMap from "@/components/CollegeMap";
 import SearchBar from "@/components/SearchBar";
 import NavigationInfo from "@/components/NavigationInfo";
-import { Room, getShortestPath } from "@/lib/pathfinding";
-import { allRooms } from "@/data/roomData";
-import { ChevronLeft, ChevronRight, MapPin, Navigation } from "lucide-react";
+import GraphDiagnostics from "@/components/GraphDiagnostics";
+import CommandPalette from "@/components/CommandPalette";
+import CategoryFilter from "@/components/CategoryFilter";
+import NearestActions from "@/components/NearestActions";
+import ItineraryEditor from "@/components/ItineraryEditor";
+import VoiceGuidance from "@/components/VoiceGuidance";
+import { Room } from "@/lib/pathfinding";
+import { ItineraryLeg, getStopArrivalIndices, planItinerary } from "@/lib/itinerary";
+import { generateInstructions } from "@/lib/instructions";
+import {
+  WalkingPace,
+  estimateWalkingSeconds,
+  formatDistance,
+  formatDuration,
+  getRouteMetres,
+  getWalkingProfile
+} from "@/lib/walking";
+import { buildSelectionUrl, parseLinkSelection } from "@/lib/deepLinks";
+import { RoomCategory } from "@/lib/categories";
+import { ChevronLeft, ChevronRight, MapPin, Navigation, PenTool, QrCode, X } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useCampusData } from "@/hooks/use-campus-data";
+import { CampusGraph } from "@/lib/graph";
+import { CAMPUS_DATA_URL } from "@/lib/campusLoader";
+
+const findRoom = (graph: CampusGraph, id: string | null) => (id ? graph.roomsById.get(id) ?? null : null);
 
 const Index = () => {
+  const { graph, data, source } = useCampusData();
   const [selectedStart, setSelectedStart] = useState<Room | null>(null);
   const [selectedDestination, setSelectedDestination] = useState<Room | null>(null);
+  const [viaStops, setViaStops] = useState<Room[]>([]);
   const [path, setPath] = useState<Room[]>([]);
+  const [legs, setLegs] = useState<ItineraryLeg[]>([]);
+  const [optimizeStops, setOptimizeStops] = useState(false);
+  const [accessibleOnly, setAccessibleOnly] = useState(false);
+  const [walkingPace, setWalkingPace] = useState<WalkingPace>("average");
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [visibleCategories, setVisibleCategories] = useState<RoomCategory[]>([]);
   const isMobile = useIsMobile();
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const lastSyncedUrl = useRef<string | null>(null);
+  
+  // Turn-by-turn steps for the current route, shared by everything that narrates it
+  const instructions = useMemo(
+    () => generateInstructions(path, graph.rooms, getStopArrivalIndices(legs)),
+    [path, legs, graph]
+  );
+  
+  // Step being guided; a new route starts again from the first step
+  const [currentStep, setCurrentStep] = useState(0);
+  const [navigating, setNavigating] = useState(false);
+  const [guidedInstructions, setGuidedInstructions] = useState(instructions);
+  if (instructions !== guidedInstructions) {
+    setGuidedInstructions(instructions);
+    setCurrentStep(0);
+    if (instructions.length === 0) setNavigating(false);
+  }
+  
+  const handleNavigationChange = (start: boolean) => {
+    setNavigating(start);
+    if (start) setCurrentStep(0);
+  };
+  
+  // Restore the selection from /route/:from/:to, /room/:id or ?from=&to=&via=
+  useEffect(() => {
+    const currentUrl = location.pathname + location.search;
+    if (currentUrl === lastSyncedUrl.current) return;
+    lastSyncedUrl.current = currentUrl;
+    
+    const selection = parseLinkSelection(
+      { from: params.from, to: params.to, id: params.id, start: params.start },
+      searchParams
+    );
+    const start = findRoom(graph, selection.fromId);
+    const destination = findRoom(graph, selection.toId);
+    const via = destination ? selection.viaIds.map(id => findRoom(graph, id)).filter(Boolean) : [];
+    const plan = start && destination
+      ? planItinerary([start, ...via, destination], graph, {
+          accessible: selection.accessible,
+          optimize: selection.optimize,
+        })
+      : null;
+    
+    setSelectedStart(start);
+    setSelectedDestination(destination);
+    setViaStops(plan ? plan.stops.slice(1, -1) : []);
+    setAccessibleOnly(selection.accessible);
+    setOptimizeStops(selection.optimize);
+    setPath(plan?.path ?? []);
+    setLegs(plan?.legs ?? []);
+  }, [location.pathname, location.search, params.from, params.to, params.id, params.start, searchParams, graph]);
   
   // Auto-close sidebar on mobile
   useEffect(() => {
@@ -23,20 +109,56 @@ const Index = () => {
     }
   }, [isMobile]);
   
-  const handleStartSelect = (room: Room) => {
-    setSelectedStart(room);
-    if (selectedDestination) {
-      const newPath = getShortestPath(room, selectedDestination, allRooms);
-      setPath(newPath);
+  // Apply a new selection, recompute the route and mirror it into the URL
+  const updateSelection = (
+    start: Room | null,
+    destination: Room | null,
+    accessible: boolean = accessibleOnly,
+    via: Room[] = viaStops,
+    optimize: boolean = optimizeStops
+  ) => {
+    // Stops only make sense between two ends, and never repeat either end
+    const stops = destination
+      ? via.filter(stop => stop.id !== start?.id && stop.id !== destination.id)
+      : [];
+    const plan = start && destination
+      ? planItinerary([start, ...stops, destination], graph, { accessible, optimize })
+      : null;
+    const orderedStops = plan ? plan.stops.slice(1, -1) : stops;
+    
+    setSelectedStart(start);
+    setSelectedDestination(destination);
+    setViaStops(orderedStops);
+    setAccessibleOnly(accessible);
+    setOptimizeStops(optimize);
+    setPath(plan?.path ?? []);
+    setLegs(plan?.legs ?? []);
+    
+    const url = buildSelectionUrl(start, destination, accessible, orderedStops, optimize);
+    lastSyncedUrl.current = url;
+    if (url !== location.pathname + location.search) {
+      navigate(url, { replace: true });
     }
   };
   
+  const handleStartSelect = (room: Room) => {
+    updateSelection(room, selectedDestination);
+  };
+  
   const handleDestinationSelect = (room: Room) => {
-    setSelectedDestination(room);
-    if (selectedStart) {
-      const newPath = getShortestPath(selectedStart, room, allRooms);
-      setPath(newPath);
-    }
+    updateSelection(selectedStart, room);
+  };
+  
+  const handleAccessibleOnlyChange = (accessible: boolean) => {
+    updateSelection(selectedStart, selectedDestination, accessible);
+  };
+  
+  const handleStopsChange = (stops: Room[]) => {
+    updateSelection(selectedStart, selectedDestination, accessibleOnly, stops);
+  };
+  
+  const handleOptimizeChange = (optimize: boolean) => {
+    updateSelection(selectedStart, selectedDestination, accessibleOnly, viaStops, optimize);
   };
   
   const handleRoomClick = (room: Room) => {
@@ -44,32 +166,23 @@ const Index = () => {
       handleStartSelect(room);
     } else if (!selectedDestination) {
       handleDestinationSelect(room);
-    } else {
-      // Reset and set as new starting point
-      setSelectedDestination(null);
-      setPath([]);
-      handleStartSelect(room);
+    } else if (room.id !== selectedStart.id && room.id !== selectedDestination.id) {
+      // Further clicks add stops on the way to the destination
+      handleStopsChange([...viaStops.filter(stop => stop.id !== room.id), room]);
     }
   };
   
   const clearNavigation = () => {
-    setSelectedStart(null);
-    setSelectedDestination(null);
-    setPath([]);
+    updateSelection(null, null);
   };
 
-  // Calculate total path distance
+  // Total walking distance and time for the summary under the map
   const calculateTotalDistance = () => {
-    if (path.length < 2) return 0;
-    
-    let totalDistance = 0;
-    for (let i = 1; i < path.length; i++) {
-      const dx = path[i].x - path[i-1].x;
-      const dy = path[i].y - path[i-1].y;
-      totalDistance += Math.sqrt(dx*dx + dy*dy);
-    }
-    
-    return Math.round(totalDistance);
+    return formatDistance(getRouteMetres(path));
+  };
+  
+  const calculateWalkingTime = () => {
+    return formatDuration(estimateWalkingSeconds(path, accessibleOnly, getWalkingProfile(walkingPace)));
   };
 
   return (
@@ -117,18 +230,71 @@ const Index = () => {
             
             <Card className="p-4 bg-gray-700 border-gray-600">
               <SearchBar 
-                rooms={allRooms.filter(r => r.type !== "waypoint" && r.name && r.name.trim() !== "")} 
+                graph={graph}
+                selectedStart={selectedStart}
+                selectedDestination={selectedDestination}
                 onSelectStart={handleStartSelect}
                 onSelectDestination={handleDestinationSelect}
+                accessibleOnly={accessibleOnly}
+                onAccessibleOnlyChange={handleAccessibleOnlyChange}
+                onOpenSearch={() => setPaletteOpen(true)}
               />
               <NavigationInfo
                 start={selectedStart}
                 destination={selectedDestination}
                 path={path}
+                instructions={instructions}
+                stops={viaStops}
+                legs={legs}
+                accessibleOnly={accessibleOnly}
+                optimizeStops={optimizeStops}
+                walkingPace={walkingPace}
+                onWalkingPaceChange={setWalkingPace}
+                activeStep={navigating ? currentStep : null}
+                onStepSelect={setCurrentStep}
+                onNavigationChange={handleNavigationChange}
                 onClear={clearNavigation}
               />
             </Card>
             
+            {instructions.length > 0 && (
+              <Card className="p-4 bg-gray-700 border-gray-600">
+                <VoiceGuidance
+                  instructions={instructions}
+                  step={currentStep}
+                  onStepChange={setCurrentStep}
+                />
+              </Card>
+            )}
+            
+            <Card className="p-4 bg-gray-700 border-gray-600">
+              <ItineraryEditor
+                graph={graph}
+                start={selectedStart}
+                destination={selectedDestination}
+                stops={viaStops}
+                optimize={optimizeStops}
+                onStopsChange={handleStopsChange}
+                onOptimizeChange={handleOptimizeChange}
+              />
+            </Card>
+            
+            <Card className="p-4 bg-gray-700 border-gray-600">
+              <NearestActions
+                graph={graph}
+                start={selectedStart}
+                accessibleOnly={accessibleOnly}
+                onRouteTo={handleDestinationSelect}
+              />
+            </Card>
+            
+            <Card className="p-4 bg-gray-700 border-gray-600">
+              <CategoryFilter
+                visibleCategories={visibleCategories}
+                onChange={setVisibleCategories}
+              />
+            </Card>
+            
             <Card className="p-4 bg-gray-700 border-gray-600">
               <h2 className="text-lg font-medium mb-2">How to Use</h2>
               <ul className="text-sm space-y-2 text-gray-300">
@@ -140,20 +306,51 @@ const Index = () => {
                   <span className="mr-2 mt-0.5">•</span>
                   <span>{isMobile ? "Tap" : "Click"} another room to set destination</span>
                 </li>
+                <li className="flex items-start">
+                  <span className="mr-2 mt-0.5">•</span>
+                  <span>{isMobile ? "Tap" : "Click"} more rooms to add stops on the way</span>
+                </li>
                 <li className="flex items-start">
                   <span className="mr-2 mt-0.5">•</span>
                   <span>{isMobile ? "Touch and drag" : "Drag"} to pan the map</span>
                 </li>
                 <li className="flex items-start">
                   <span className="mr-2 mt-0.5">•</span>
-                  <span>Use buttons or pinch to zoom in/out</span>
+                  <span>{isMobile ? "Pinch or double-tap" : "Scroll or use the buttons"} to zoom in/out</span>
                 </li>
                 <li className="flex items-start">
                   <span className="mr-2 mt-0.5">•</span>
                   <span>{isMobile ? "Tap" : "Hover"} on any room to see its name</span>
                 </li>
+                {!isMobile && (
+                  <li className="flex items-start">
+                    <span className="mr-2 mt-0.5">•</span>
+                    <span>Press Ctrl+K to search by name, alias or abbreviation</span>
+                  </li>
+                )}
               </ul>
             </Card>
+            
+            <Card className="p-4 bg-gray-700 border-gray-600">
+              <GraphDiagnostics rooms={data.rooms} />
+              {source === "file" && (
+                <p className="mt-2 text-xs text-gray-400">Map data loaded from {CAMPUS_DATA_URL}</p>
+              )}
+              <Link
+                to="/signage"
+                className="mt-3 text-sm text-blue-300 hover:text-blue-200 flex items-center gap-1"
+              >
+                <QrCode className="h-4 w-4" />
+                Print "You are here" QR signs
+              </Link>
+              <Link
+                to="/editor"
+                className="mt-2 text-sm text-blue-300 hover:text-blue-200 flex items-center gap-1"
+              >
+                <PenTool className="h-4 w-4" />
+                Open the map editor
+              </Link>
+            </Card>
           </div>
         </div>
         
@@ -171,28 +368,88 @@ const Index = () => {
           )}
           
           <CollegeMap
-            rooms={allRooms}
+            graph={graph}
+            floors={data.floors}
             selectedStart={selectedStart}
             selectedDestination={selectedDestination}
             path={path}
+            stops={viaStops}
+            navigationStep={navigating ? instructions[currentStep] : null}
+            visibleCategories={visibleCategories}
             onRoomClick={handleRoomClick}
           />
           
+          {/* Step-through controls over the map */}
+          {navigating && instructions[currentStep] && (
+            <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-20 w-[min(28rem,calc(100%-2rem))] bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">
+                Step {currentStep + 1} of {instructions.length}
+              </div>
+              <p className="text-sm font-medium mb-3" aria-live="polite">
+                {instructions[currentStep].text}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setCurrentStep(currentStep - 1)}
+                  disabled={currentStep === 0}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-md py-1.5 text-sm flex items-center justify-center"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Back
+                </button>
+                {currentStep < instructions.length - 1 ? (
+                  <button
+                    onClick={() => setCurrentStep(currentStep + 1)}
+                    className="flex-1 bg-blue-600 hover:bg-blue-500 rounded-md py-1.5 text-sm flex items-center justify-center"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleNavigationChange(false)}
+                    className="flex-1 bg-green-600 hover:bg-green-500 rounded-md py-1.5 text-sm"
+                  >
+                    Finish
+                  </button>
+                )}
+                <button
+                  onClick={() => handleNavigationChange(false)}
+                  className="p-1.5 rounded-md hover:bg-gray-700"
+                  aria-label="Exit navigation"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+          
           {/* Navigation title beneath map on mobile */}
-          {selectedStart && selectedDestination && path.length > 0 && isMobile && (
+          {selectedStart && selectedDestination && path.length > 0 && isMobile && !navigating && (
             <div className="absolute bottom-0 left-0 right-0 bg-gray-800/90 backdrop-blur-sm py-2 px-4 text-center">
               <h2 className="text-lg font-medium flex items-center justify-center">
                 <Navigation className="mr-2 h-4 w-4" />
                 {selectedStart.name} → {selectedDestination.name}
               </h2>
               <p className="text-xs text-gray-300 mt-1">
-                {path.length} waypoints • {calculateTotalDistance()} units total distance
+                {viaStops.length > 0 && `${viaStops.length} stops • `}
+                {calculateTotalDistance()} • about {calculateWalkingTime()} walk
               </p>
             </div>
           )}
         </div>
       </main>
       
+      <CommandPalette
+        graph={graph}
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        selectedStart={selectedStart}
+        selectedDestination={selectedDestination}
+        onSelectStart={handleStartSelect}
+        onSelectDestination={handleDestinationSelect}
+      />
+      
       <footer className="bg-gray-800 text-center text-xs text-gray-400 py-2">
         <p>College Blueprint Navigator - Works 100% Offline</p>
       </footer>
@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useCampusData } from "@/hooks/use-campus-data";
+import { getSignageAnchors, renderQrSvg } from "@/lib/signage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, Download, MapPin, Printer } from "lucide-react";
+
+const Signage = () => {
+  const { graph } = useCampusData();
+  // Codes must point at the deployed site, not whatever host is printing them
+  const [baseUrl, setBaseUrl] = useState(window.location.origin);
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+
+  const anchors = useMemo(() => getSignageAnchors(graph, baseUrl), [graph, baseUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(anchors.map(async anchor => [anchor.room.id, await renderQrSvg(anchor.url)] as const))
+      .then(entries => {
+        if (!cancelled) setQrCodes(Object.fromEntries(entries));
+      })
+      .catch(error => console.error("Failed to render QR codes:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [anchors]);
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <header className="bg-gray-800 text-white py-2 px-4 shadow-lg print:hidden">
+        <div className="container mx-auto flex flex-wrap gap-2 justify-between items-center">
+          <h1 className="text-xl font-bold flex items-center">
+            <MapPin className="mr-2" />
+            "You are here" Signage
+          </h1>
+          <Link
+            to="/"
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-md text-sm flex items-center"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Back to map
+          </Link>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3 print:hidden">
+          <label className="flex-1 min-w-64 space-y-1">
+            <span className="text-sm font-medium">Site address encoded in the codes</span>
+            <Input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} />
+          </label>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4" />
+            Print / Save as PDF
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600 print:hidden">
+          {anchors.length} signs for entrances, stairs and corridor junctions. Scanning a code
+          opens the map with that spot set as the starting point.
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 print:grid-cols-3">
+          {anchors.map(anchor => {
+            const svg = qrCodes[anchor.room.id];
+
+            return (
+              <div
+                key={anchor.room.id}
+                className="border-2 border-gray-900 rounded-md p-3 flex flex-col items-center text-center break-inside-avoid"
+              >
+                <div className="text-xs font-semibold uppercase tracking-wide text-orange-600">
+                  You are here
+                </div>
+                <div className="font-bold">{anchor.label}</div>
+                <div className="text-xs text-gray-600 mb-2">{anchor.floorName}</div>
+
+                {svg ? (
+                  <div
+                    className="w-36 h-36 [&>svg]:w-full [&>svg]:h-full"
+                    dangerouslySetInnerHTML={{ __html: svg }}
+                  />
+                ) : (
+                  <div className="w-36 h-36 bg-gray-100 animate-pulse rounded" />
+                )}
+
+                <div className="text-[10px] text-gray-500 mt-2 break-all">{anchor.url}</div>
+
+                {svg && (
+                  <a
+                    href={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+                    download={`here-${anchor.room.id}.svg`}
+                    className="mt-2 text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1 print:hidden"
+                  >
+                    <Download className="h-3 w-3" />
+                    SVG
+                  </a>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Signage;